@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { ERROR_SUMMARY_SHEET_NAME, describeValidationError, writeAnnotatedWorkbook } from './annotate';
+import { writeExcelData } from './utils';
+import { ValidationError } from './validation';
+
+const responsibilitySpec = 'responsibility specification (Task:Responsibility)';
+const services = [
+  { Service: 'Pano Blurring', taskProduct: 'Panoss', [responsibilitySpec]: 'Panos-Blurring auto' },
+  { Service: 'Pano Blurring', taskProduct: 'Panos', [responsibilitySpec]: '' }
+];
+const errors: ValidationError[] = [
+  { row: 2, field: 'taskProduct', value: 'Panoss', validOptions: ['Panos', 'Floorplan'] },
+  { row: 2, field: `${responsibilitySpec} (format)`, value: 'Panos-Blurring auto', validOptions: ['task: responsibility_options'], kind: 'format' },
+  { row: 3, field: 'Service (duplicate)', value: '"Pano Blurring" is defined 2 times (identical definitions)', validOptions: [], kind: 'duplicate', otherRows: [2] }
+];
+
+/**
+ * Read the text of a cell note, as written or as read back from a file
+ */
+function noteText(cell: ExcelJS.Cell): string {
+  const note: any = cell.note;
+  return typeof note === 'string' ? note : note.texts.map((text: { text: string }) => text.text).join('');
+}
+
+describe('Annotated error workbooks', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'annotate-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('describes each kind of error in its own terms', () => {
+    expect(errors.map(describeValidationError)).toEqual([
+      '"Panoss" is not among the 2 valid option(s) for "taskProduct"',
+      `"Panos-Blurring auto" is not in the "task: responsibility_options" format for "${responsibilitySpec} (format)"`,
+      '"Pano Blurring" is defined 2 times (identical definitions); other row(s): 2'
+    ]);
+    expect(describeValidationError({ row: 2, field: 'cost.auto (number)', value: 'cheap', validOptions: [], kind: 'number' }))
+      .toBe('"cheap" is not a non-negative number for "cost.auto (number)"');
+  });
+
+  test('fills invalid cells, notes the reason and lists every error on a summary sheet', async () => {
+    const inputPath = path.join(tempDir, 'blueprint_services.xlsx');
+    const outputPath = path.join(tempDir, 'blueprint_services.errors.xlsx');
+    await (await writeExcelData(services, { sheetName: 'blueprint_services' })).xlsx.writeFile(inputPath);
+
+    await writeAnnotatedWorkbook(inputPath, undefined, errors, outputPath);
+
+    const annotated = new ExcelJS.Workbook();
+    await annotated.xlsx.readFile(outputPath);
+    const worksheet = annotated.getWorksheet('blueprint_services')!;
+
+    expect(worksheet.getCell('B2').fill).toEqual({ type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFF9999' } });
+    expect(worksheet.getCell('A2').fill).toBeUndefined();
+    expect(noteText(worksheet.getCell('B2'))).toBe(
+      'Invalid value: "Panoss"\n"Panoss" is not among the 2 valid option(s) for "taskProduct"\nDid you mean: "Panos"'
+    );
+    expect(noteText(worksheet.getCell('A3'))).toBe('"Pano Blurring" is defined 2 times (identical definitions); other row(s): 2');
+
+    const summary = annotated.getWorksheet(ERROR_SUMMARY_SHEET_NAME)!;
+    expect((summary.getRow(1).values as any[]).slice(1)).toEqual(['#', 'Cell', 'Field', 'Invalid value', 'Reason', 'Did you mean']);
+    expect(summary.getRow(1).font).toMatchObject({ bold: true });
+    expect(summary.getCell('B2').value).toEqual({ text: 'blueprint_services!B2', hyperlink: "#'blueprint_services'!B2" });
+    expect(summary.getCell('E3').value).toBe(describeValidationError(errors[1]));
+    expect(summary.rowCount).toBe(errors.length + 1);
+  });
+});
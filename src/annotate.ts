@@ -0,0 +1,153 @@
+/**
+ * Annotated XLSX error reports: invalid cells are filled red and get a note
+ */
+
+import ExcelJS from 'exceljs';
+import { ValidationError, findClosestMatches } from './validation';
+
+/**
+ * Name of the summary sheet added to annotated workbooks
+ */
+export const ERROR_SUMMARY_SHEET_NAME = 'validation_errors';
+
+/**
+ * Find the column of the field a validation error refers to
+ * Specification errors name a part of the column, e.g. "<column> (Task part)"
+ * @param worksheet - Worksheet with headers in row 1
+ * @param field - Field of the validation error
+ * @returns 1-based column number, or 0 if no header matches
+ */
+export function findErrorColumn(worksheet: ExcelJS.Worksheet, field: string): number {
+  let column = 0;
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    const header = String(cell.value);
+    if (!column && (header === field || field.startsWith(`${header} (`))) {
+      column = colNumber;
+    }
+  });
+  return column;
+}
+
+/**
+ * Whether the value of a validation error describes the problem instead of holding the invalid value
+ */
+function isDescriptiveError(error: ValidationError): boolean {
+  return error.kind !== undefined && error.kind !== 'format' && error.kind !== 'number';
+}
+
+/**
+ * Describe why a value failed validation
+ * @param error - Validation error
+ * @returns Human-readable reason, depending on the kind of error
+ */
+export function describeValidationError(error: ValidationError): string {
+  if (error.kind === 'format') {
+    return `"${error.value}" is not in the "${error.validOptions[0]}" format for "${error.field}"`;
+  }
+  if (error.kind === 'number') {
+    return `"${error.value}" is not a non-negative number for "${error.field}"`;
+  }
+  if (error.otherRows && error.otherRows.length > 0) {
+    return `${error.value}; other row(s): ${error.otherRows.join(', ')}`;
+  }
+  if (isDescriptiveError(error)) {
+    return error.value;
+  }
+  return `"${error.value}" is not among the ${error.validOptions.length} valid option(s) for "${error.field}"`;
+}
+
+/**
+ * Quote a sheet name for use in a cell reference
+ */
+function sheetReference(sheetName: string): string {
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Fill invalid cells red, attach a note to each and add a summary sheet with links to the cells
+ * @param workbook - Workbook to annotate (modified in place)
+ * @param worksheet - Validated worksheet
+ * @param errors - Validation errors of the worksheet
+ */
+export function annotateValidationErrors(
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  errors: ValidationError[]
+): void {
+  // Notes per cell, since array fields can have several errors in one cell
+  const notes: Record<string, string[]> = {};
+
+  const existingSummary = workbook.getWorksheet(ERROR_SUMMARY_SHEET_NAME);
+  if (existingSummary) {
+    workbook.removeWorksheet(existingSummary.id);
+  }
+  const summary = workbook.addWorksheet(ERROR_SUMMARY_SHEET_NAME);
+  summary.columns = [
+    { header: '#', key: 'index', width: 6 },
+    { header: 'Cell', key: 'cell', width: 28 },
+    { header: 'Field', key: 'field', width: 40 },
+    { header: 'Invalid value', key: 'value', width: 40 },
+    { header: 'Reason', key: 'reason', width: 60 },
+    { header: 'Did you mean', key: 'suggestions', width: 40 }
+  ];
+  summary.getRow(1).font = { bold: true };
+
+  errors.forEach((error, idx) => {
+    const suggestions = findClosestMatches(error.value, error.validOptions, 3);
+    const reason = describeValidationError(error);
+    const column = findErrorColumn(worksheet, error.field);
+
+    let cellValue: ExcelJS.CellValue = `Row ${error.row}`;
+    if (column) {
+      const cell = worksheet.getCell(error.row, column);
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFF9999' } };
+
+      const note = isDescriptiveError(error) ? [reason] : [`Invalid value: "${error.value}"`, reason];
+      if (suggestions.length > 0) {
+        note.push(`Did you mean: ${suggestions.map(s => `"${s}"`).join(', ')}`);
+      }
+      notes[cell.address] = [...(notes[cell.address] || []), note.join('\n')];
+      cell.note = notes[cell.address].join('\n\n');
+
+      const reference = `${sheetReference(worksheet.name)}!${cell.address}`;
+      cellValue = { text: `${worksheet.name}!${cell.address}`, hyperlink: `#${reference}` };
+    }
+
+    const row = summary.addRow({
+      index: idx + 1,
+      cell: cellValue,
+      field: error.field,
+      value: error.value,
+      reason,
+      suggestions: suggestions.join(', ')
+    });
+    if (column) {
+      row.getCell('cell').font = { color: { argb: 'FF0563C1' }, underline: true };
+    }
+  });
+}
+
+/**
+ * Write an annotated copy of an input workbook
+ * @param inputPath - Path to the validated XLSX file
+ * @param sheetName - Validated sheet (first sheet if omitted)
+ * @param errors - Validation errors of the sheet
+ * @param outputPath - Path of the annotated copy
+ */
+export async function writeAnnotatedWorkbook(
+  inputPath: string,
+  sheetName: string | undefined,
+  errors: ValidationError[],
+  outputPath: string
+): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(inputPath);
+
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(`Sheet '${sheetName}' not found in ${inputPath}`);
+  }
+
+  annotateValidationErrors(workbook, worksheet, errors);
+  await workbook.xlsx.writeFile(outputPath);
+}
@@ -0,0 +1,80 @@
+import { detectBlueprintSchema, diffBlueprints } from './blueprintDiff';
+import { getBlueprintSchema } from './schema';
+import { readExcelData, writeExcelData } from './utils';
+
+const tasksSchema = getBlueprintSchema('blueprint_tasks')!;
+
+const oldTasks = [
+  { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto', 'client'] },
+  { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], enhancement: null, responsibility_options: ['auto'] },
+  { task: 'Elevation-building', inputs: ['geometry-scaffold'], outputs: ['Elevation'], enhancement: '', responsibility_options: ['auto'] }
+];
+
+describe('Blueprint diff', () => {
+  test('ignores record order, array order and empty-value spelling', () => {
+    const newTasks = [
+      { ...oldTasks[2], enhancement: null },
+      { ...oldTasks[1], enhancement: '' },
+      { ...oldTasks[0], responsibility_options: ['client', 'auto'] }
+    ];
+
+    const diff = diffBlueprints(oldTasks, newTasks, tasksSchema);
+
+    expect(diff).toMatchObject({ added: [], removed: [], changed: [], warnings: [] });
+  });
+
+  test('lists added, removed and changed records with per-field differences', () => {
+    const newTasks = [
+      { ...oldTasks[0], enhancement: 'Staging', responsibility_options: ['auto', 'IM-operators'] },
+      oldTasks[1],
+      { task: 'Dollhouse-building', inputs: ['geometry-scaffold'], outputs: ['Dollhouse'], enhancement: '', responsibility_options: ['auto'] }
+    ];
+
+    const diff = diffBlueprints(oldTasks, newTasks, tasksSchema);
+
+    expect(diff.added).toEqual(['Dollhouse-building']);
+    expect(diff.removed).toEqual(['Elevation-building']);
+    expect(diff.changed).toEqual([{
+      key: 'Panos-Blurring',
+      fields: [
+        { field: 'enhancement', from: 'Blur', to: 'Staging' },
+        {
+          field: 'responsibility_options',
+          from: ['auto', 'client'],
+          to: ['auto', 'IM-operators'],
+          added: ['IM-operators'],
+          removed: ['client']
+        }
+      ]
+    }]);
+  });
+
+  test('compares a JSON version with its XLSX export column by column, including nested attributes', async () => {
+    const timedTasks = [
+      { ...oldTasks[0], duration: { auto: 2, client: 5 }, cost: 10 },
+      { ...oldTasks[1], duration: { auto: 1.5 } }
+    ];
+    const workbook = await writeExcelData(timedTasks, { sheetName: 'blueprint_tasks' });
+    const exported = readExcelData(workbook.getWorksheet('blueprint_tasks')!).rows;
+
+    expect(diffBlueprints(timedTasks, exported, tasksSchema).changed).toEqual([]);
+
+    exported[0]['duration.client'] = '6';
+    expect(diffBlueprints(timedTasks, exported, tasksSchema).changed).toEqual([
+      { key: 'Panos-Blurring', fields: [{ field: 'duration.client', from: 5, to: '6' }] }
+    ]);
+  });
+
+  test('warns about duplicate keys', () => {
+    const diff = diffBlueprints(oldTasks, [...oldTasks, oldTasks[0]], tasksSchema);
+
+    expect(diff.warnings).toEqual(['new: duplicate task "Panos-Blurring" (record 4), only the first one is compared']);
+  });
+
+  test('detects the blueprint from its columns when the file name is not a blueprint name', () => {
+    expect(detectBlueprintSchema('tasks_v2', oldTasks).name).toBe('blueprint_tasks');
+    expect(detectBlueprintSchema('services', [{ Service: 'Pano Blurring', taskProduct: 'Panos' }]).name)
+      .toBe('blueprint_services');
+    expect(() => detectBlueprintSchema('notes', [{ title: 'x' }])).toThrow(/Cannot tell/);
+  });
+});
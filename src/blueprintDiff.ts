@@ -0,0 +1,194 @@
+/**
+ * Semantic diff of two versions of a blueprint (JSON or XLSX), matching records by natural key
+ */
+
+import { BLUEPRINT_SCHEMAS, BlueprintSchema, getBlueprintSchema } from './schema';
+import { flattenObject } from './transforms';
+import { BlueprintDiff, BlueprintFieldChange } from './types';
+
+/**
+ * Find the schema of the blueprint two files hold
+ * Uses the blueprint name if it is known, otherwise the schema whose fields best match the records
+ * @param name - Blueprint name (e.g. from --blueprint or a file name)
+ * @param records - Records of the blueprint
+ * @returns Schema
+ * @throws Error if no schema matches
+ */
+export function detectBlueprintSchema(name: string, records: any[]): BlueprintSchema {
+  const named = getBlueprintSchema(name);
+  if (named) return named;
+
+  const keys = new Set(records.flatMap(record => Object.keys(record)));
+  const candidates = BLUEPRINT_SCHEMAS
+    .filter(schema => keys.has(schema.keyField))
+    .map(schema => ({ schema, matches: schema.fields.filter(field => keys.has(field)).length }))
+    .sort((a, b) => b.matches - a.matches);
+
+  if (candidates.length === 0) {
+    throw new Error(`Cannot tell which blueprint '${name}' is (expected one of ${BLUEPRINT_SCHEMAS.map(s => s.name).join(', ')})`);
+  }
+  return candidates[0].schema;
+}
+
+/**
+ * Normalize a field value so JSON and XLSX versions compare equal
+ * (null, undefined and '' are all empty; strings are trimmed)
+ * @param value - Field value from a JSON record or an XLSX row
+ * @returns Normalized value (arrays become trimmed string arrays)
+ */
+export function normalizeValue(value: any): any {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(item => item !== '');
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+/**
+ * Compare one field of two versions of a record
+ * @returns The change, or null if the values are equal (arrays: equal as sets)
+ */
+function diffField(field: string, oldValue: any, newValue: any, isArrayField: boolean): BlueprintFieldChange | null {
+  const from = normalizeValue(oldValue);
+  const to = normalizeValue(newValue);
+
+  if (isArrayField || Array.isArray(from) || Array.isArray(to)) {
+    const fromValues: string[] = Array.isArray(from) ? from : (from === '' ? [] : [String(from)]);
+    const toValues: string[] = Array.isArray(to) ? to : (to === '' ? [] : [String(to)]);
+    const added = [...new Set(toValues.filter(value => !fromValues.includes(value)))];
+    const removed = [...new Set(fromValues.filter(value => !toValues.includes(value)))];
+    return added.length > 0 || removed.length > 0 ? { field, from: fromValues, to: toValues, added, removed } : null;
+  }
+
+  // Numbers from JSON and numeric text from XLSX cells are the same value
+  const sameNumber = from !== '' && to !== '' && Number.isFinite(Number(from)) && Number(from) === Number(to);
+  return sameNumber || String(from) === String(to) ? null : { field, from, to };
+}
+
+/**
+ * Flatten nested objects of a record into the columns of its XLSX version (e.g. duration.auto),
+ * keeping lists as lists so they still compare as sets
+ */
+function flattenRecord(record: any): any {
+  const flattened = flattenObject(record);
+  Object.keys(record).forEach(field => {
+    if (Array.isArray(record[field])) {
+      flattened[field] = record[field];
+    }
+  });
+  return flattened;
+}
+
+/**
+ * Index records by natural key
+ * Records without a key are skipped and duplicate keys keep the first record; both are reported as warnings
+ */
+function indexByKey(records: any[], keyField: string, label: string, warnings: string[]): Map<string, any> {
+  const index = new Map<string, any>();
+  records.forEach((record, idx) => {
+    const key = String(normalizeValue(record[keyField]));
+    if (key === '') {
+      warnings.push(`${label}: record ${idx + 1} has no ${keyField} and was skipped`);
+    } else if (index.has(key)) {
+      warnings.push(`${label}: duplicate ${keyField} "${key}" (record ${idx + 1}), only the first one is compared`);
+    } else {
+      index.set(key, record);
+    }
+  });
+  return index;
+}
+
+/**
+ * Compare two records field by field (the key field excepted)
+ * Nested attributes are compared per column, so JSON and XLSX versions of a record compare equal
+ * @param oldRecord - Older record
+ * @param newRecord - Newer record
+ * @param schema - Schema of the blueprint
+ * @returns Changed fields: schema fields first, then any extra columns in either record
+ */
+export function diffRecords(oldRecord: any, newRecord: any, schema: BlueprintSchema): BlueprintFieldChange[] {
+  const oldFlattened = flattenRecord(oldRecord);
+  const newFlattened = flattenRecord(newRecord);
+  const fields = [...new Set([...schema.fields, ...Object.keys(oldFlattened), ...Object.keys(newFlattened)])]
+    .filter(field => field !== schema.keyField);
+  return fields
+    .map(field => diffField(field, oldFlattened[field], newFlattened[field], schema.arrayFields.includes(field)))
+    .filter((change): change is BlueprintFieldChange => change !== null);
+}
+
+/**
+ * Compare two versions of a blueprint
+ * Records are matched by the schema's key field, so sorting or moving rows is not a change
+ * @param oldRecords - Records of the older version
+ * @param newRecords - Records of the newer version
+ * @param schema - Schema of the blueprint
+ * @returns Added / removed keys and per-field changes of records present in both versions
+ */
+export function diffBlueprints(oldRecords: any[], newRecords: any[], schema: BlueprintSchema): BlueprintDiff {
+  const diff: BlueprintDiff = {
+    blueprint: schema.name,
+    keyField: schema.keyField,
+    added: [],
+    removed: [],
+    changed: [],
+    warnings: []
+  };
+
+  const oldIndex = indexByKey(oldRecords, schema.keyField, 'old', diff.warnings);
+  const newIndex = indexByKey(newRecords, schema.keyField, 'new', diff.warnings);
+
+  diff.added = [...newIndex.keys()].filter(key => !oldIndex.has(key));
+  diff.removed = [...oldIndex.keys()].filter(key => !newIndex.has(key));
+
+  newIndex.forEach((newRecord, key) => {
+    const oldRecord = oldIndex.get(key);
+    if (!oldRecord) return;
+
+    const changes = diffRecords(oldRecord, newRecord, schema);
+    if (changes.length > 0) {
+      diff.changed.push({ key, fields: changes });
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Format a field value for display
+ */
+function formatValue(value: any): string {
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  return value === '' ? '(empty)' : JSON.stringify(value);
+}
+
+/**
+ * Report a blueprint diff to console
+ * @param diff - Result of diffBlueprints
+ * @param oldLabel - Name of the older version
+ * @param newLabel - Name of the newer version
+ */
+export function reportBlueprintDiff(diff: BlueprintDiff, oldLabel: string, newLabel: string): void {
+  console.log(`📋 ${diff.blueprint} diff: ${oldLabel} → ${newLabel} (matched by ${diff.keyField})`);
+  diff.warnings.forEach(warning => console.log(`   ⚠️  ${warning}`));
+
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    console.log('✅ No differences');
+    return;
+  }
+
+  console.log('─'.repeat(80));
+  diff.added.forEach(key => console.log(`+ ${key}`));
+  diff.removed.forEach(key => console.log(`- ${key}`));
+  diff.changed.forEach(change => {
+    console.log(`~ ${change.key}`);
+    change.fields.forEach(field => {
+      if (field.added || field.removed) {
+        const parts = [...(field.added || []).map(v => `+${v}`), ...(field.removed || []).map(v => `-${v}`)];
+        console.log(`     ${field.field}: ${parts.join(' ')}`);
+      } else {
+        console.log(`     ${field.field}: ${formatValue(field.from)} → ${formatValue(field.to)}`);
+      }
+    });
+  });
+
+  console.log('─'.repeat(80));
+  console.log(`   ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`);
+}
@@ -0,0 +1,134 @@
+/**
+ * Loading of blueprint files (JSON or XLSX) for graph-based commands
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { readExcelData } from './utils';
+import { getDelimiter, readDelimitedData } from './csv';
+import { denormalizeSpecifications } from './transforms';
+import { BLUEPRINT_SCHEMAS, getBlueprintSchema } from './schema';
+import { BlueprintSet } from './types';
+
+/**
+ * Blueprint files used when a command is run without --blueprints
+ */
+export const DEFAULT_BLUEPRINT_FILES = BLUEPRINT_SCHEMAS.map(schema => `input_jsons/${schema.name}.json`);
+
+/**
+ * Get the blueprint base name of a file (e.g. 'blueprint_tasks' for 'x/blueprint_tasks.xlsx')
+ * @param filePath - Path to a blueprint file
+ * @returns File name without directory and extension
+ */
+export function getBlueprintBaseName(filePath: string): string {
+  return path.basename(filePath).replace(/\.(json|xlsx|csv|tsv)$/i, '');
+}
+
+/**
+ * Read the records of a single blueprint file
+ * @param filePath - Path to a .json, .xlsx, .csv or .tsv blueprint file
+ * @returns Array of records (XLSX and CSV rows are unflattened, structured JSON specifications become "a: b" columns)
+ * @throws Error if the file is missing, unreadable or has an unsupported extension
+ */
+export async function readBlueprintFile(filePath: string): Promise<any[]> {
+  const resolvedPath = path.resolve(filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`File '${filePath}' does not exist`);
+  }
+
+  if (resolvedPath.toLowerCase().endsWith('.json')) {
+    const jsonData = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    return (Array.isArray(jsonData) ? jsonData : [jsonData]).map(record => denormalizeSpecifications(record));
+  }
+
+  if (resolvedPath.toLowerCase().endsWith('.xlsx')) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(resolvedPath);
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      throw new Error(`File '${filePath}' has no worksheet`);
+    }
+    return readExcelData(worksheet).rows;
+  }
+
+  if (/\.(csv|tsv)$/i.test(resolvedPath)) {
+    return readDelimitedData(fs.readFileSync(resolvedPath, 'utf-8'), getDelimiter(resolvedPath)).rows;
+  }
+
+  throw new Error(`File '${filePath}' is neither .json, .xlsx, .csv nor .tsv`);
+}
+
+/**
+ * Read the blueprint sheets of a multi-sheet blueprint workbook (e.g. blueprint.xlsx)
+ * @param filePath - Path to the workbook
+ * @returns Record mapping blueprint name (sheet name) to its records
+ */
+export async function readBlueprintWorkbook(filePath: string): Promise<Record<string, any[]>> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(path.resolve(filePath));
+
+  const sheets: Record<string, any[]> = {};
+  BLUEPRINT_SCHEMAS.forEach(schema => {
+    const worksheet = workbook.getWorksheet(schema.name);
+    if (worksheet) {
+      sheets[schema.name] = readExcelData(worksheet).rows;
+    }
+  });
+
+  return sheets;
+}
+
+/**
+ * Create a blueprint set with no records for every blueprint type
+ * @returns Blueprint set
+ */
+export function createBlueprintSet(): BlueprintSet {
+  const blueprints = {} as BlueprintSet;
+  BLUEPRINT_SCHEMAS.forEach(schema => {
+    if (schema.setField) {
+      blueprints[schema.setField] = [];
+    }
+  });
+  return blueprints;
+}
+
+/**
+ * Store the records of a blueprint in a blueprint set
+ * @param blueprints - Blueprint set to update
+ * @param blueprintName - Blueprint base name (names without a setField in the schema are ignored)
+ * @param records - Records of the blueprint
+ */
+export function assignBlueprint(blueprints: BlueprintSet, blueprintName: string, records: any[]): void {
+  const setField = getBlueprintSchema(blueprintName)?.setField;
+  if (setField) {
+    blueprints[setField] = records;
+  }
+}
+
+/**
+ * Load a set of blueprint files, sorting their records by blueprint type
+ * Files are matched by blueprint name (e.g. blueprint_tasks.json); any other XLSX file is read as a multi-sheet blueprint workbook
+ * @param filePaths - Paths to blueprint files
+ * @returns Loaded blueprint set (missing blueprints are empty arrays)
+ */
+export async function loadBlueprintSet(filePaths: string[]): Promise<BlueprintSet> {
+  const blueprints = createBlueprintSet();
+
+  for (const filePath of filePaths) {
+    const fileBaseName = getBlueprintBaseName(filePath);
+
+    if (getBlueprintSchema(fileBaseName)) {
+      assignBlueprint(blueprints, fileBaseName, await readBlueprintFile(filePath));
+    } else if (filePath.toLowerCase().endsWith('.xlsx')) {
+      if (!fs.existsSync(path.resolve(filePath))) {
+        throw new Error(`File '${filePath}' does not exist`);
+      }
+      const sheets = await readBlueprintWorkbook(filePath);
+      Object.keys(sheets).forEach(name => assignBlueprint(blueprints, name, sheets[name]));
+    }
+  }
+
+  return blueprints;
+}
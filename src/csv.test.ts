@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatDelimited, parseDelimited, readDelimitedData, writeDelimitedData } from './csv';
+import { transformDelimitedFiles, transformJsonFiles } from './pipeline';
+import { OptionsStore } from './types';
+
+const taskProducts = [
+  { taskProduct: 'Panos', 'enhancement-order': [] },
+  { taskProduct: 'Floorplan', 'enhancement-order': [] }
+];
+const tasks = [
+  { task: 'Data-Acquisition', inputs: [], outputs: ['Panos'], enhancement: '', responsibility_options: ['client'] },
+  { task: 'floorplan-building', inputs: ['Panos'], outputs: ['Floorplan'], enhancement: '', responsibility_options: ['IM-operators', 'auto'] }
+];
+const services = [
+  {
+    Service: 'Floor Plan, "LiDAR"',
+    taskProduct: 'Floorplan',
+    'responsibility specification (Task:Responsibility)': 'floorplan-building: IM-operators; Data-Acquisition: client',
+    note: 'first line\nsecond line'
+  }
+];
+
+describe('CSV / TSV', () => {
+  test('quotes commas, quotes and line breaks and reads them back', () => {
+    const records = [['name', 'spec'], ['a, b', 'x: "y"'], ['line\nbreak', ' padded ']];
+    const text = formatDelimited(records, ',');
+
+    expect(text).toBe('name,spec\n"a, b","x: ""y"""\n"line\nbreak"," padded "\n');
+    expect(parseDelimited(text, ',').map(record => record.fields)).toEqual(records);
+    expect(parseDelimited(formatDelimited(records, '\t'), '\t').map(record => record.fields)).toEqual(records);
+  });
+
+  test('reads CRLF files with a byte order mark and numbers records by their first line', () => {
+    const content = '\uFEFFtask,outputs\r\n"multi\r\nline",Panos\r\n\r\nfloorplan-building,"Floorplan, Panos"\r\n';
+
+    expect(readDelimitedData(content, ',')).toEqual({
+      headers: ['task', 'outputs'],
+      rows: [
+        { task: 'multi\r\nline', outputs: ['Panos'] },
+        { task: 'floorplan-building', outputs: ['Floorplan', 'Panos'] }
+      ],
+      rowNumbers: [2, 5]
+    });
+    expect(() => parseDelimited('task\n"unclosed', ',')).toThrow('Unclosed quote in the record starting on line 2');
+  });
+
+  test('flattens arrays into quoted cells like the XLSX sheets', () => {
+    const text = writeDelimitedData(tasks, ',');
+
+    expect(text).toBe(
+      'task,inputs,outputs,enhancement,responsibility_options\n' +
+      'Data-Acquisition,,Panos,,client\n' +
+      'floorplan-building,Panos,Floorplan,,"IM-operators, auto"\n'
+    );
+    expect(readDelimitedData(text, ',').rows).toEqual(tasks);
+  });
+
+  describe('pipeline', () => {
+    let tempDir: string;
+    let optionsStore: OptionsStore;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-test-'));
+      optionsStore = { filePath: path.join(tempDir, 'options.json'), learn: 'replace' };
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('converts JSON to CSV and back without losing values', async () => {
+      const files = ['blueprint_task_products', 'blueprint_tasks', 'blueprint_services'].map(name => path.join(tempDir, `${name}.json`));
+      [taskProducts, tasks, services].forEach((records, index) => fs.writeFileSync(files[index], JSON.stringify(records)));
+
+      const toCsv = await transformJsonFiles(files, { optionsStore, outputFormat: 'csv' });
+      expect(toCsv.files.map(file => [file.status, path.basename(file.outputPath!)]))
+        .toEqual([['converted', 'blueprint_task_products.csv'], ['converted', 'blueprint_tasks.csv'], ['converted', 'blueprint_services.csv']]);
+
+      const csvDir = path.join(tempDir, 'csv');
+      fs.mkdirSync(csvDir);
+      const csvFiles = toCsv.files.map(file => {
+        const csvFile = path.join(csvDir, path.basename(file.outputPath!));
+        fs.copyFileSync(file.outputPath!, csvFile);
+        return csvFile;
+      });
+      const toJson = await transformDelimitedFiles(csvFiles, { optionsStore });
+
+      expect(toJson.files.map(file => file.status)).toEqual(['converted', 'converted', 'converted']);
+      expect(JSON.parse(fs.readFileSync(toJson.files[1].outputPath!, 'utf-8'))).toEqual(tasks);
+      expect(JSON.parse(fs.readFileSync(toJson.files[2].outputPath!, 'utf-8'))).toEqual(services);
+    });
+
+    test('reports validation errors on the line of the record', async () => {
+      const tsvFiles = ['blueprint_task_products', 'blueprint_tasks'].map(name => path.join(tempDir, `${name}.tsv`));
+      fs.writeFileSync(tsvFiles[0], writeDelimitedData(taskProducts, '\t'));
+      fs.writeFileSync(tsvFiles[1], [
+        'task\tinputs\toutputs\tresponsibility_options',
+        'Data-Acquisition\t\tPanos\tclient',
+        '',
+        'floorplan-building\tPanoss\tFloorplan\tIM-operators',
+        ''
+      ].join('\n'));
+
+      const result = await transformDelimitedFiles(tsvFiles, { optionsStore });
+
+      expect(result.files[1]).toMatchObject({ status: 'invalid' });
+      expect(result.files[1].errors).toContainEqual(expect.objectContaining({ row: 4, field: 'inputs', value: 'Panoss' }));
+    });
+
+    test('reports duplicate keys with the lines of the other definitions', async () => {
+      const csvFile = path.join(tempDir, 'blueprint_task_products.csv');
+      fs.writeFileSync(csvFile, ['taskProduct,enhancement-order', 'Panos,', '', 'Floorplan,', '', 'Panos,'].join('\n'));
+
+      const result = await transformDelimitedFiles([csvFile], { optionsStore });
+
+      expect(result.files[0]).toMatchObject({ status: 'invalid' });
+      expect(result.files[0].errors.map(error => [error.row, error.otherRows])).toEqual([[2, [6]], [6, [2]]]);
+    });
+  });
+});
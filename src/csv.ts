@@ -0,0 +1,171 @@
+/**
+ * CSV / TSV blueprints: RFC 4180 quoting, with the flatten / unflatten rules of the XLSX path
+ */
+
+import * as path from 'path';
+import { flattenObject, unflattenObject } from './transforms';
+
+/**
+ * Delimited output formats (--output-format)
+ */
+export const DELIMITED_FORMATS = ['csv', 'tsv'];
+
+/**
+ * Delimiter of each delimited format
+ */
+const DELIMITERS: Record<string, string> = {
+  csv: ',',
+  tsv: '\t'
+};
+
+/**
+ * Get the delimiter of a delimited file from its extension
+ * @param filePath - Path to a .csv or .tsv file
+ * @returns Tab for .tsv, comma otherwise
+ */
+export function getDelimiter(filePath: string): string {
+  return path.extname(filePath).toLowerCase() === '.tsv' ? DELIMITERS.tsv : DELIMITERS.csv;
+}
+
+/**
+ * Get the delimiter of a delimited format
+ * @param format - 'csv' or 'tsv'
+ * @returns Delimiter
+ * @throws Error if the format is not a delimited format
+ */
+export function getFormatDelimiter(format: string): string {
+  if (!DELIMITERS[format]) {
+    throw new Error(`Unknown delimited format '${format}' (expected ${DELIMITED_FORMATS.join(', ')})`);
+  }
+  return DELIMITERS[format];
+}
+
+/**
+ * Split delimited text into records of fields
+ * Quoted fields may hold delimiters, line breaks and doubled quotes ("") standing for one quote
+ * @param content - File content (a leading byte order mark is ignored)
+ * @param delimiter - Field delimiter
+ * @returns Records with their fields and the line each record starts on
+ * @throws Error on a quote that is not closed
+ */
+export function parseDelimited(content: string, delimiter: string): { fields: string[]; line: number }[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ fields, line: recordLine });
+    fields = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // CRLF, LF and CR all end a record
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new Error(`Unclosed quote in the record starting on line ${recordLine}`);
+  }
+  // Last record without a trailing line break
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Quote a field if it holds the delimiter, a quote, a line break or surrounding spaces
+ */
+function quoteField(value: string, delimiter: string): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Join records of fields into delimited text (one line per record, LF line breaks)
+ * @param records - Records of fields, the first one being the header
+ * @param delimiter - Field delimiter
+ * @returns Delimited text ending with a line break
+ */
+export function formatDelimited(records: string[][], delimiter: string): string {
+  return records.map(fields => fields.map(field => quoteField(field, delimiter)).join(delimiter)).join('\n') + '\n';
+}
+
+/**
+ * Read blueprint records from delimited text, like readExcelData reads a worksheet
+ * @param content - File content; the first record is the header
+ * @param delimiter - Field delimiter
+ * @returns Headers, unflattened records (empty records are skipped) and the line each record starts on
+ */
+export function readDelimitedData(content: string, delimiter: string): { headers: string[], rows: any[], rowNumbers: number[] } {
+  const [header, ...records] = parseDelimited(content, delimiter);
+  const headers = header ? header.fields.map(name => name.trim()) : [];
+  const rows: any[] = [];
+  const rowNumbers: number[] = [];
+
+  records
+    .filter(record => record.fields.some(value => value !== ''))
+    .forEach(record => {
+      const rowData: any = {};
+      headers.forEach((name, index) => {
+        if (name) {
+          rowData[name] = record.fields[index] ?? '';
+        }
+      });
+      // Unflatten the object to restore arrays
+      rows.push(unflattenObject(rowData));
+      rowNumbers.push(record.line);
+    });
+
+  return { headers, rows, rowNumbers };
+}
+
+/**
+ * Write blueprint records as delimited text, flattened like the XLSX sheets
+ * @param records - Records (nested objects and arrays are flattened)
+ * @param delimiter - Field delimiter
+ * @returns Delimited text with a header of every column of every record
+ */
+export function writeDelimitedData(records: any[], delimiter: string): string {
+  const flattened = records.map(record => flattenObject(record));
+  const headers = [...new Set(flattened.flatMap(row => Object.keys(row)))];
+  const cell = (value: any) => value === undefined || value === null ? '' : String(value);
+  return formatDelimited([headers, ...flattened.map(row => headers.map(name => cell(row[name])))], delimiter);
+}
@@ -0,0 +1,78 @@
+import ExcelJS from 'exceljs';
+import { VOCABULARY_SHEET_NAME, addDropdownValidations } from './dropdowns';
+import { addExcelSheet, writeExcelData } from './utils';
+
+const responsibilitySpec = 'responsibility specification (Task:Responsibility)';
+const services = [
+  { Service: 'Pano Blurring', taskProduct: 'Panos', enhancement: 'Blur', [responsibilitySpec]: 'Panos-Blurring: auto' },
+  { Service: 'Floor Plan', taskProduct: 'Floorplan', enhancement: '', [responsibilitySpec]: '' }
+];
+const tasks = [
+  { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto'] }
+];
+const fieldOptions = {
+  taskProduct: ['Panos', 'Floorplan'],
+  enhancement: ['Blur'],
+  task: ['Panos-Blurring'],
+  task_responsibilities: { 'Panos-Blurring': ['auto', 'IM-operators'] }
+};
+
+describe('Dropdowns', () => {
+  let workbook: ExcelJS.Workbook;
+  let worksheet: ExcelJS.Worksheet;
+
+  beforeEach(async () => {
+    workbook = await writeExcelData(services, { sheetName: 'blueprint_services' });
+    worksheet = workbook.getWorksheet('blueprint_services')!;
+  });
+
+  test('keeps the vocabularies on a hidden sheet, one list per column', () => {
+    expect(addDropdownValidations(workbook, worksheet, 'blueprint_services', fieldOptions)).toBe(3);
+
+    const vocabularies = workbook.getWorksheet(VOCABULARY_SHEET_NAME)!;
+    expect(vocabularies.state).toBe('hidden');
+    expect(vocabularies.getSheetValues().slice(1).map(row => (row as any[]).slice(1))).toEqual([
+      ['taskProduct', 'enhancement', responsibilitySpec],
+      ['Panos', 'Blur', 'Panos-Blurring: auto'],
+      ['Floorplan', undefined, 'Panos-Blurring: IM-operators']
+    ]);
+  });
+
+  test('adds list validations referencing the list ranges to the vocabulary columns only', () => {
+    addDropdownValidations(workbook, worksheet, 'blueprint_services', fieldOptions);
+    const lastRow = services.length + 1 + 500;
+
+    expect(worksheet.getCell('A2').dataValidation).toBeUndefined();
+    ['B2', `B${lastRow}`].forEach(address => {
+      expect(worksheet.getCell(address).dataValidation).toMatchObject({
+        type: 'list',
+        allowBlank: true,
+        formulae: [`'${VOCABULARY_SHEET_NAME}'!$A$2:$A$3`],
+        errorStyle: 'stop'
+      });
+    });
+    expect(worksheet.getCell(`B${lastRow + 1}`).dataValidation).toBeUndefined();
+    expect(worksheet.getCell('C2').dataValidation).toMatchObject({ formulae: [`'${VOCABULARY_SHEET_NAME}'!$B$2:$B$2`] });
+    // Specification columns may hold several pairs, so they only warn
+    expect(worksheet.getCell('D2').dataValidation).toMatchObject({
+      formulae: [`'${VOCABULARY_SHEET_NAME}'!$C$2:$C$3`],
+      errorStyle: 'warning'
+    });
+  });
+
+  test('reuses lists across sheets and skips columns without a learned vocabulary', () => {
+    addDropdownValidations(workbook, worksheet, 'blueprint_services', fieldOptions);
+    const tasksSheet = addExcelSheet(workbook, tasks, { sheetName: 'blueprint_tasks' });
+
+    // inputs, outputs and enhancement; the key column and responsibility_options (not learned) get none
+    expect(addDropdownValidations(workbook, tasksSheet, 'blueprint_tasks', fieldOptions)).toBe(3);
+    expect(tasksSheet.getCell('B2').dataValidation).toMatchObject({
+      formulae: [`'${VOCABULARY_SHEET_NAME}'!$A$2:$A$3`],
+      errorStyle: 'warning'
+    });
+    expect(tasksSheet.getCell('C2').dataValidation.formulae).toEqual([`'${VOCABULARY_SHEET_NAME}'!$A$2:$A$3`]);
+    expect(tasksSheet.getCell('E2').dataValidation).toBeUndefined();
+    expect(workbook.getWorksheet(VOCABULARY_SHEET_NAME)!.columnCount).toBe(3);
+    expect(addDropdownValidations(workbook, tasksSheet, 'notes', fieldOptions)).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Dropdown (list data validation) support for generated XLSX files
+ * Vocabularies are stored on a hidden sheet so the lists work offline
+ */
+
+import ExcelJS from 'exceljs';
+import { getBlueprintSchema } from './schema';
+
+/**
+ * Name of the hidden sheet holding the dropdown vocabularies
+ */
+export const VOCABULARY_SHEET_NAME = 'vocabularies';
+
+/**
+ * Number of empty rows below the data that also get dropdowns (room for new records)
+ */
+const DROPDOWN_EXTRA_ROWS = 500;
+
+/**
+ * Build "part1: part2" combinations from a relationship mapping
+ */
+function combine(
+  mapping: Record<string, string[]> | undefined,
+  format: (key: string, value: string) => string
+): string[] {
+  if (!mapping) return [];
+  return Object.keys(mapping).flatMap(key => (mapping[key] || []).map(value => format(key, value)));
+}
+
+/**
+ * Valid values of specification columns, keyed by the vocabularies of their parts ("part1:part2")
+ * Built from the learned relationships so only compatible pairs are offered
+ */
+const SPECIFICATION_COMBINATIONS: Record<string, (fieldOptions: Record<string, any>) => string[]> = {
+  'task:responsibility_options': fieldOptions =>
+    combine(fieldOptions['task_responsibilities'], (task, responsibility) => `${task}: ${responsibility}`),
+  'taskProduct:task': fieldOptions =>
+    combine(fieldOptions['taskProduct_producers'], (taskProduct, task) => `${taskProduct}: ${task}`),
+  'enhancement:taskProduct': fieldOptions =>
+    combine(fieldOptions['taskProduct_enhancements'], (taskProduct, enhancement) => `${enhancement}: ${taskProduct}`)
+};
+
+/**
+ * Convert a 1-based column number to Excel column letters (1 → A, 27 → AA)
+ */
+function columnLetter(column: number): string {
+  let letters = '';
+  while (column > 0) {
+    const remainder = (column - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    column = Math.floor((column - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * Get (or create) the hidden vocabulary sheet and add a list to it
+ * @returns Absolute range formula of the list (e.g. 'vocabularies'!$A$2:$A$21)
+ */
+function addVocabularyList(workbook: ExcelJS.Workbook, name: string, values: string[]): string {
+  let sheet = workbook.getWorksheet(VOCABULARY_SHEET_NAME);
+  if (!sheet) {
+    sheet = workbook.addWorksheet(VOCABULARY_SHEET_NAME, { state: 'hidden' });
+  }
+
+  // Reuse a column that already holds this list
+  const headerRow = sheet.getRow(1);
+  let column = 0;
+  headerRow.eachCell((cell, colNumber) => {
+    if (cell.value === name) column = colNumber;
+  });
+
+  if (!column) {
+    column = sheet.columnCount + 1;
+    sheet.getCell(1, column).value = name;
+    values.forEach((value, idx) => {
+      sheet!.getCell(idx + 2, column).value = value;
+    });
+  }
+
+  const letter = columnLetter(column);
+  return `'${VOCABULARY_SHEET_NAME}'!$${letter}$2:$${letter}$${values.length + 1}`;
+}
+
+/**
+ * Add list data validation to the columns of a blueprint sheet that reference a vocabulary
+ * Single-valued columns reject other values; array and specification columns only warn
+ * (they may hold several values or differently spaced "part1:part2" strings)
+ * @param workbook - Workbook containing the sheet
+ * @param worksheet - Blueprint sheet (header in row 1)
+ * @param blueprintName - Blueprint type of the sheet (e.g. 'blueprint_tasks')
+ * @param fieldOptions - Learned options from available_options.json
+ * @returns Number of columns that received a dropdown
+ */
+export function addDropdownValidations(
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  blueprintName: string,
+  fieldOptions: Record<string, any>
+): number {
+  const schema = getBlueprintSchema(blueprintName);
+  if (!schema) return 0;
+
+  const lastRow = Math.max(worksheet.rowCount, 1) + DROPDOWN_EXTRA_ROWS;
+  let columnCount = 0;
+
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    const field = String(cell.value);
+    if (field === schema.keyField) return;
+
+    let listName: string;
+    let values: string[];
+    let strict: boolean;
+
+    const specification = schema.specificationColumns.find(spec => spec.column === field);
+    if (specification) {
+      const combinations = SPECIFICATION_COMBINATIONS[specification.parts.join(':')];
+      listName = field;
+      values = combinations ? combinations(fieldOptions) : [];
+      strict = false;
+    } else if (schema.vocabularies[field]) {
+      listName = schema.vocabularies[field];
+      values = Array.isArray(fieldOptions[listName]) ? fieldOptions[listName] : [];
+      strict = !schema.arrayFields.includes(field);
+    } else {
+      return;
+    }
+
+    if (values.length === 0) return;
+
+    const validation: ExcelJS.DataValidation = {
+      type: 'list',
+      allowBlank: true,
+      formulae: [addVocabularyList(workbook, listName, values)],
+      showErrorMessage: true,
+      errorStyle: strict ? 'stop' : 'warning',
+      errorTitle: 'Invalid value', // Excel limits titles to 32 characters
+      error: strict
+        ? `Pick a value from the ${listName} list`
+        : `Value is not in the ${listName} list`
+    };
+
+    // ExcelJS merges the cell validations of a column into one range when writing
+    for (let row = 2; row <= lastRow; row++) {
+      worksheet.getCell(row, colNumber).dataValidation = validation;
+    }
+    columnCount++;
+  });
+
+  return columnCount;
+}
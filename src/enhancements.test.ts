@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildEnhancementChain, findEnhancementOrderViolations, findPlanEnhancementOrderViolations } from './enhancements';
+import { ExecutionPlan } from './types';
+
+const tasksData = JSON.parse(fs.readFileSync(path.join(__dirname, '../input_jsons/blueprint_tasks.json'), 'utf-8'));
+const panosOrder = ['Photo-enhancement', 'Blur', 'Staging', 'Declutter'];
+
+describe('Enhancement order', () => {
+  test('chains requested enhancements in the declared order', () => {
+    const chain = buildEnhancementChain('Panos', ['Blur', 'Photo-enhancement'], panosOrder, tasksData);
+    
+    expect(chain.tasks).toEqual(['Panos-Photo-enhancement', 'Panos-Blurring']);
+    expect(chain.missing).toEqual([]);
+  });
+
+  test('reports enhancements no task provides', () => {
+    const chain = buildEnhancementChain('Floorplan', ['Blur'], [], tasksData);
+    
+    expect(chain.tasks).toEqual([]);
+    expect(chain.missing).toEqual(['Blur']);
+  });
+
+  test('detects enhancements applied out of order', () => {
+    expect(findEnhancementOrderViolations(['Staging', 'Photo-enhancement'], panosOrder))
+      .toEqual([['Staging', 'Photo-enhancement']]);
+    expect(findEnhancementOrderViolations(['Photo-enhancement', 'Staging'], panosOrder)).toEqual([]);
+  });
+
+  test('detects an execution plan that stages before photo-enhancement', () => {
+    const step = (task: string, enhancement: string) => ({
+      task,
+      inputs: ['Panos'],
+      outputs: ['Panos'],
+      enhancement,
+      responsibility: 'IM-operators',
+      responsibilityOptions: ['IM-operators']
+    });
+    const plan: ExecutionPlan = {
+      steps: [step('Panos-Staging', 'Staging'), step('Panos-Photo-enhancement', 'Photo-enhancement')],
+      choices: {},
+      externalInputs: []
+    };
+    
+    expect(findPlanEnhancementOrderViolations(plan, { Panos: panosOrder })).toHaveLength(1);
+  });
+});
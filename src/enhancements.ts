@@ -0,0 +1,119 @@
+/**
+ * Enhancement ordering helpers based on the enhancement-order of blueprint_task_products
+ */
+
+import { findEnhancementTask } from './graph';
+import { ExecutionPlan } from './types';
+
+/**
+ * Sort enhancements by their position in the declared enhancement-order
+ * Enhancements missing from the declared order keep their relative order at the end
+ * @param enhancements - Enhancements to sort
+ * @param enhancementOrder - Declared enhancement-order of the taskProduct
+ * @returns Sorted copy of enhancements
+ */
+export function sortByEnhancementOrder(enhancements: string[], enhancementOrder: string[]): string[] {
+  const rank = (enhancement: string) => {
+    const idx = enhancementOrder.indexOf(enhancement);
+    return idx === -1 ? enhancementOrder.length : idx;
+  };
+  return [...enhancements].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Build the ordered chain of enhancement tasks for a set of requested enhancements
+ * e.g. Panos + [Blur, Photo-enhancement] → [Panos-Photo-enhancement, Panos-Blurring]
+ * @param taskProduct - Enhanced taskProduct
+ * @param requested - Requested enhancements (any order)
+ * @param enhancementOrder - Declared enhancement-order of the taskProduct
+ * @param tasksData - Records from blueprint_tasks
+ * @returns Ordered enhancement task names and the enhancements no task provides
+ */
+export function buildEnhancementChain(
+  taskProduct: string,
+  requested: string[],
+  enhancementOrder: string[],
+  tasksData: any[]
+): { tasks: string[]; missing: string[] } {
+  const chain: { tasks: string[]; missing: string[] } = { tasks: [], missing: [] };
+
+  sortByEnhancementOrder([...new Set(requested)], enhancementOrder).forEach(enhancement => {
+    const enhancementTask = findEnhancementTask(tasksData, enhancement, taskProduct);
+    if (enhancementTask) {
+      chain.tasks.push(enhancementTask.task);
+    } else {
+      chain.missing.push(enhancement);
+    }
+  });
+
+  return chain;
+}
+
+/**
+ * Find pairs of enhancements applied against the declared order
+ * @param applied - Enhancements in the order they are applied
+ * @param enhancementOrder - Declared enhancement-order of the taskProduct
+ * @returns Array of [applied earlier, should have come first] pairs
+ */
+export function findEnhancementOrderViolations(applied: string[], enhancementOrder: string[]): [string, string][] {
+  const violations: [string, string][] = [];
+
+  for (let i = 0; i < applied.length; i++) {
+    for (let j = i + 1; j < applied.length; j++) {
+      const earlier = enhancementOrder.indexOf(applied[i]);
+      const later = enhancementOrder.indexOf(applied[j]);
+      if (earlier !== -1 && later !== -1 && earlier > later) {
+        violations.push([applied[i], applied[j]]);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Describe an enhancement order violation
+ * @param taskProduct - Enhanced taskProduct
+ * @param violation - Pair returned by findEnhancementOrderViolations
+ * @param enhancementOrder - Declared enhancement-order of the taskProduct
+ * @returns Human-readable message
+ */
+export function describeEnhancementOrderViolation(
+  taskProduct: string,
+  violation: [string, string],
+  enhancementOrder: string[]
+): string {
+  return `"${violation[0]}" is applied to "${taskProduct}" before "${violation[1]}" ` +
+    `(enhancement-order: ${enhancementOrder.join(' → ')})`;
+}
+
+/**
+ * Check that an execution plan applies enhancements in the declared order
+ * @param plan - Execution plan
+ * @param enhancementOrders - taskProduct → declared enhancement-order
+ * @returns Array of violation messages (empty if the plan is ordered)
+ */
+export function findPlanEnhancementOrderViolations(
+  plan: ExecutionPlan,
+  enhancementOrders: Record<string, string[]>
+): string[] {
+  // Enhancements applied to each taskProduct, in step order
+  const applied: Record<string, string[]> = {};
+  plan.steps.forEach(step => {
+    if (!step.enhancement) return;
+    step.outputs.filter(output => step.inputs.includes(output)).forEach(taskProduct => {
+      if (!applied[taskProduct]) applied[taskProduct] = [];
+      applied[taskProduct].push(step.enhancement);
+    });
+  });
+
+  const messages: string[] = [];
+  Object.keys(applied).forEach(taskProduct => {
+    const enhancementOrder = enhancementOrders[taskProduct] || [];
+    findEnhancementOrderViolations(applied[taskProduct], enhancementOrder).forEach(violation => {
+      messages.push(describeEnhancementOrderViolation(taskProduct, violation, enhancementOrder));
+    });
+  });
+
+  return messages;
+}
@@ -0,0 +1,82 @@
+import { estimateService, estimateServices } from './estimates';
+import { validateData } from './validation';
+import { BlueprintSet } from './types';
+
+const blueprints: BlueprintSet = {
+  taskProducts: [
+    { taskProduct: 'captures', 'enhancement-order': [] },
+    { taskProduct: 'Panos', 'enhancement-order': ['Blur'] },
+    { taskProduct: 'scaffold', 'enhancement-order': [] },
+    { taskProduct: 'Floorplan', 'enhancement-order': [] }
+  ],
+  tasks: [
+    { task: 'Capture', inputs: [], outputs: ['captures'], enhancement: '', responsibility_options: ['client'], 'duration.client': 24, cost: 0 },
+    { task: 'Pano-Generation', inputs: ['captures'], outputs: ['Panos'], enhancement: '', responsibility_options: ['auto'], 'duration.auto': '1', 'cost.auto': '2' },
+    {
+      task: 'Geometry-building', inputs: ['captures'], outputs: ['scaffold'], enhancement: '', responsibility_options: ['auto', 'IM-operators'],
+      duration: { 'auto': 2, 'IM-operators': 8 }, cost: { 'auto': 5, 'IM-operators': 40 }
+    },
+    { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto'], duration: 0.5, cost: 1 },
+    { task: 'floorplan-building', inputs: ['Panos', 'scaffold'], outputs: ['Floorplan'], enhancement: '', responsibility_options: ['IM-operators'], 'duration.IM-operators': 3, 'cost.IM-operators': 20 }
+  ],
+  services: [
+    {
+      Service: 'Floor Plan',
+      taskProduct: 'Floorplan',
+      'responsibility specification (Task:Responsibility)': 'Geometry-building: auto',
+      'enhancement medium specification (enhancement:taskProduct)': 'Blur: Panos'
+    },
+    { Service: 'Panos', taskProduct: 'Panos' }
+  ]
+};
+
+describe('Service estimates', () => {
+  test('sums the cost and takes the longest branch as turnaround', () => {
+    const estimate = estimateService('Floor Plan', blueprints);
+
+    expect(estimate.steps.map(step => [step.task, step.responsibility, step.finish, step.critical])).toEqual([
+      ['Capture', 'client', 24, true],
+      ['Pano-Generation', 'auto', 25, false],
+      ['Panos-Blurring', 'auto', 25.5, false],
+      ['Geometry-building', 'auto', 26, true],
+      ['floorplan-building', 'IM-operators', 29, true]
+    ]);
+    expect(estimate.steps[4].dependsOn).toEqual(['Panos-Blurring', 'Geometry-building']);
+    expect(estimate).toMatchObject({
+      duration: 29,
+      cost: 28,
+      criticalPath: ['Capture', 'Geometry-building', 'floorplan-building'],
+      missing: []
+    });
+  });
+
+  test('uses the requested responsibility wherever a task allows it', () => {
+    const estimate = estimateService('Floor Plan', blueprints, 'IM-operators');
+
+    expect(estimate.steps.map(step => step.responsibility)).toEqual(['client', 'auto', 'auto', 'IM-operators', 'IM-operators']);
+    expect(estimate).toMatchObject({ duration: 35, cost: 63 });
+  });
+
+  test('lists steps without an estimate and counts them as 0', () => {
+    const withoutEstimates = {
+      ...blueprints,
+      tasks: blueprints.tasks.map(task => task.task === 'Pano-Generation' ? { ...task, 'duration.auto': '' } : task)
+    };
+    const [floorPlan, panos] = estimateServices(withoutEstimates);
+
+    expect(floorPlan).toMatchObject({ duration: 29, missing: ['Pano-Generation (auto): no duration'] });
+    expect(panos).toMatchObject({ duration: 24, cost: 2, missing: ['Pano-Generation (auto): no duration'] });
+  });
+
+  test('validates attribute columns against the responsibility options of the task', () => {
+    const rows = [
+      { task: 'Geometry-building', responsibility_options: ['auto', 'IM-operators'], 'duration.IM-operator': 8, 'cost.auto': 'cheap' }
+    ];
+
+    expect(validateData(rows, {}, 'blueprint_tasks')).toEqual([
+      { row: 2, field: 'duration.IM-operator (responsibility)', value: 'IM-operator', validOptions: ['auto', 'IM-operators'] },
+      { row: 2, field: 'cost.auto (number)', value: 'cheap', validOptions: [], kind: 'number' }
+    ]);
+    expect(validateData(blueprints.tasks, {}, 'blueprint_tasks')).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Service estimates: turnaround and cost rolled up from the per-responsibility duration and cost
+ * of blueprint_tasks along each service's execution plan
+ */
+
+import { planService } from './planner';
+import { indexTasks } from './graph';
+import { readAttributeValues, parseAttributeNumber } from './transforms';
+import { formatQueryTable } from './query';
+import { BlueprintSet, QueryResult, ServiceEstimate } from './types';
+
+/**
+ * Output formats of `transform estimate`
+ */
+export const ESTIMATE_FORMATS = ['table', 'json'];
+
+/**
+ * Round away floating point noise (e.g. 0.1 + 0.2)
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Read the duration or cost of a task for a responsibility
+ * @returns Value of "<field>.<responsibility>", else of "<field>", or null if neither is a number
+ */
+function readTaskAttribute(taskRow: any, field: string, responsibility: string): number | null {
+  const values = readAttributeValues(taskRow, field);
+  const value = values[responsibility] ?? values[''];
+  return value === undefined ? null : parseAttributeNumber(value);
+}
+
+/**
+ * Estimate the turnaround and cost of a service
+ * Steps depend on the latest earlier step producing one of their inputs, so enhancement chains run in
+ * sequence and independent branches in parallel; the turnaround is the longest chain (critical path)
+ * @param serviceName - Value of the Service column
+ * @param blueprints - Loaded blueprint_tasks and blueprint_services records
+ * @param responsibility - Responsibility to use wherever a task allows it (e.g. 'IM-operators'),
+ *   instead of the one the service specifies
+ * @returns Estimate
+ * @throws Error if the service is not in blueprint_services
+ */
+export function estimateService(serviceName: string, blueprints: BlueprintSet, responsibility?: string): ServiceEstimate {
+  const plan = planService(serviceName, blueprints);
+  const estimate: ServiceEstimate = {
+    service: serviceName,
+    taskProduct: plan.taskProduct,
+    steps: [],
+    duration: null,
+    cost: null,
+    criticalPath: [],
+    missing: []
+  };
+  if (!plan.selected) {
+    estimate.missing.push('No execution plan');
+    return estimate;
+  }
+
+  const tasksByName = indexTasks(blueprints.tasks);
+  const latestProducer: Record<string, number> = {};
+  const dependencies: number[][] = [];
+
+  plan.selected.steps.forEach((step, index) => {
+    const chosen = responsibility && step.responsibilityOptions.includes(responsibility)
+      ? responsibility
+      : step.responsibility;
+    const stepDependencies = [...new Set(step.inputs.filter(input => input in latestProducer).map(input => latestProducer[input]))];
+
+    let duration: number | null = null;
+    let cost: number | null = null;
+    if (!chosen) {
+      estimate.missing.push(`${step.task}: responsibility unspecified (${step.responsibilityOptions.join(' | ')})`);
+    } else {
+      duration = readTaskAttribute(tasksByName[step.task], 'duration', chosen);
+      cost = readTaskAttribute(tasksByName[step.task], 'cost', chosen);
+      const absent = [duration === null ? 'duration' : '', cost === null ? 'cost' : ''].filter(field => field);
+      if (absent.length > 0) {
+        estimate.missing.push(`${step.task} (${chosen}): no ${absent.join(' or ')}`);
+      }
+    }
+
+    const start = Math.max(0, ...stepDependencies.map(dependency => estimate.steps[dependency].finish));
+    estimate.steps.push({
+      task: step.task,
+      responsibility: chosen,
+      duration,
+      cost,
+      dependsOn: stepDependencies.map(dependency => estimate.steps[dependency].task),
+      finish: round(start + (duration ?? 0)),
+      critical: false
+    });
+    dependencies.push(stepDependencies);
+    step.outputs.forEach(output => { latestProducer[output] = index; });
+  });
+
+  // Walk back from the step delivering the service's taskProduct along the latest-finishing dependency
+  const end = latestProducer[plan.taskProduct] ?? estimate.steps.length - 1;
+  let current: number | undefined = end >= 0 ? end : undefined;
+  while (current !== undefined) {
+    estimate.steps[current].critical = true;
+    estimate.criticalPath.unshift(estimate.steps[current].task);
+    current = dependencies[current].reduce<number | undefined>(
+      (latest, dependency) => latest === undefined || estimate.steps[dependency].finish > estimate.steps[latest].finish ? dependency : latest,
+      undefined
+    );
+  }
+
+  estimate.duration = end >= 0 ? estimate.steps[end].finish : 0;
+  estimate.cost = round(estimate.steps.reduce((total, step) => total + (step.cost ?? 0), 0));
+  return estimate;
+}
+
+/**
+ * Estimate every service of blueprint_services
+ * @param blueprints - Loaded blueprint_tasks and blueprint_services records
+ * @param responsibility - Responsibility to use wherever a task allows it
+ * @returns Estimates in blueprint_services order
+ */
+export function estimateServices(blueprints: BlueprintSet, responsibility?: string): ServiceEstimate[] {
+  return blueprints.services
+    .map((service: any) => String(service.Service || '').trim())
+    .filter(service => service !== '')
+    .map(service => estimateService(service, blueprints, responsibility));
+}
+
+/**
+ * Summarize estimates as one row per service (for tables and XLSX export)
+ * @param estimates - Service estimates
+ * @returns Rows with service, taskProduct, duration, cost, critical path and missing estimates
+ */
+export function summarizeEstimates(estimates: ServiceEstimate[]): QueryResult {
+  return {
+    title: 'Service estimates',
+    columns: ['service', 'taskProduct', 'duration', 'cost', 'critical path', 'missing'],
+    rows: estimates.map(estimate => ({
+      'service': estimate.service,
+      'taskProduct': estimate.taskProduct,
+      'duration': estimate.duration,
+      'cost': estimate.cost,
+      'critical path': estimate.criticalPath.join(' → '),
+      'missing': estimate.missing.join('; ')
+    }))
+  };
+}
+
+/**
+ * Report the estimate of one service, step by step, to console
+ * @param estimate - Estimate returned by estimateService
+ */
+export function reportServiceEstimate(estimate: ServiceEstimate): void {
+  console.log(`\n⏱️  Estimate for "${estimate.service}" → ${estimate.taskProduct || '(no taskProduct)'}\n`);
+
+  if (estimate.steps.length > 0) {
+    formatQueryTable({
+      title: '',
+      columns: ['', 'task', 'responsibility', 'duration', 'cost', 'finish'],
+      rows: estimate.steps.map(step => ({ ...step, '': step.critical ? '★' : '' }))
+    }).forEach(line => console.log(`  ${line}`));
+    console.log('');
+    console.log(`  Turnaround: ${estimate.duration} (critical path ★: ${estimate.criticalPath.join(' → ')})`);
+    console.log(`  Cost: ${estimate.cost}`);
+  }
+
+  if (estimate.missing.length > 0) {
+    console.log('');
+    estimate.missing.forEach(missing => console.log(`  ⚠️  ${missing}`));
+    console.log('  Steps without an estimate count as 0: the totals are lower bounds');
+  }
+  console.log('');
+}
+
+/**
+ * Report the estimates of several services as a table
+ * @param estimates - Service estimates
+ */
+export function reportServiceEstimates(estimates: ServiceEstimate[]): void {
+  const summary = summarizeEstimates(estimates);
+  console.log(`⏱️  ${summary.title}: ${estimates.length} service(s)`);
+  formatQueryTable({ ...summary, columns: summary.columns.filter(column => column !== 'missing') })
+    .forEach(line => console.log(line));
+
+  const incomplete = estimates.filter(estimate => estimate.missing.length > 0).length;
+  if (incomplete > 0) {
+    console.log(`⚠️  ${incomplete} service(s) have steps without an estimate (totals are lower bounds); estimate one service for details`);
+  }
+}
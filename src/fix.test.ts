@@ -0,0 +1,65 @@
+import { applyTypoFixes, findTypoFix } from './fix';
+import { ValidationError, validateData } from './validation';
+
+const fieldOptions: Record<string, any> = {
+  taskProduct: ['Panos', 'Floorplan', 'Elevation'],
+  enhancement: ['Blur', 'Staging'],
+  task: ['Panos-Blurring'],
+  taskProduct_enhancements: { Panos: ['Blur', 'Staging'] }
+};
+
+const mediumSpec = 'enhancement medium specification (enhancement:taskProduct)';
+
+describe('Typo fixes', () => {
+  test('fixes only when exactly one option is within the distance', () => {
+    const error = (value: string, validOptions: string[]): ValidationError =>
+      ({ row: 2, field: 'taskProduct', value, validOptions });
+
+    expect(findTypoFix(error('Panoss', ['Panos', 'Floorplan']))).toBe('Panos');
+    expect(findTypoFix(error('Panoss', ['Panos', 'Panosx']))).toBeNull();
+    expect(findTypoFix(error('Flooorplann', ['Floorplan']))).toBeNull();
+    expect(findTypoFix(error('Flooorplann', ['Floorplan']), 2)).toBe('Floorplan');
+  });
+
+  test('fixes simple fields and parts of compound specifications, then re-validates clean', () => {
+    const rows = [
+      { Service: 'Pano Blurring', taskProduct: 'Panoss', enhancement: 'Blur', [mediumSpec]: 'Blurr: Panos' }
+    ];
+    const errors = validateData(rows, fieldOptions, 'blueprint_services');
+
+    const fixes = applyTypoFixes(rows, errors);
+
+    expect(fixes.map(fix => [fix.column, fix.value, fix.replacement])).toEqual([
+      ['taskProduct', 'Panoss', 'Panos'],
+      [mediumSpec, 'Blurr', 'Blur']
+    ]);
+    expect(rows[0]).toMatchObject({ taskProduct: 'Panos', [mediumSpec]: 'Blur: Panos' });
+    expect(validateData(rows, fieldOptions, 'blueprint_services')).toEqual([]);
+  });
+
+  test('fixes the pair of a multi-valued specification holding the typo', () => {
+    const rows = [
+      { Service: 'Pano Staging', taskProduct: 'Panos', enhancement: 'Staging', [mediumSpec]: 'Blur: Panos;  Stagingg: Panos' }
+    ];
+
+    applyTypoFixes(rows, validateData(rows, fieldOptions, 'blueprint_services'));
+
+    expect(rows[0][mediumSpec]).toBe('Blur: Panos;  Staging: Panos');
+  });
+
+  test('fixes elements of array fields', () => {
+    const rows = [{ task: 'Panos-Blurring', inputs: ['Panos', 'Elevatoin'], outputs: ['Panos'] }];
+    const errors = validateData(rows, fieldOptions, 'blueprint_tasks');
+
+    expect(applyTypoFixes(rows, errors, 2)).toHaveLength(1);
+    expect(rows[0].inputs).toEqual(['Panos', 'Elevation']);
+  });
+
+  test('leaves values without a close match for re-validation to report', () => {
+    const rows = [{ Service: 'Pano Blurring', taskProduct: 'Pictures', enhancement: 'Blur' }];
+    const errors = validateData(rows, fieldOptions, 'blueprint_services');
+
+    expect(applyTypoFixes(rows, errors)).toEqual([]);
+    expect(rows[0].taskProduct).toBe('Pictures');
+  });
+});
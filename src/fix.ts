@@ -0,0 +1,191 @@
+/**
+ * Auto-fix mode: replaces invalid values with their only close suggestion
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { ValidationError, findClosestMatches } from './validation';
+import { findErrorColumn } from './annotate';
+import { flattenObject, SPECIFICATION_SEPARATOR } from './transforms';
+import { TypoFix, FixLogEntry } from './types';
+
+/**
+ * Maximum edit distance of an automatic fix unless configured otherwise
+ */
+export const DEFAULT_FIX_DISTANCE = 1;
+
+/**
+ * File name of the change log written next to the outputs
+ */
+const FIX_LOG_NAME = 'fix-log.json';
+
+/**
+ * Find the replacement for an invalid value
+ * @param error - Validation error
+ * @param maxDistance - Maximum edit distance between the value and its replacement
+ * @returns The only valid option within maxDistance, or null if there is none or several
+ */
+export function findTypoFix(error: ValidationError, maxDistance: number = DEFAULT_FIX_DISTANCE): string | null {
+  const candidates = findClosestMatches(error.value, error.validOptions, 2, maxDistance);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Find the record column a validation error refers to
+ * Specification errors name a part of the column, e.g. "<column> (Task part)"
+ */
+function findRecordColumn(record: any, field: string): string | undefined {
+  return Object.keys(record).find(key => key === field || field.startsWith(`${key} (`));
+}
+
+/**
+ * Replace one part of a "part1: part2" pair, keeping its spacing
+ * @returns Patched pair, or null if neither part equals the value
+ */
+function replacePairPart(pair: string, value: string, replacement: string): string | null {
+  const separator = pair.indexOf(':');
+  if (separator === -1) return null;
+
+  const left = pair.slice(0, separator);
+  const right = pair.slice(separator + 1);
+  if (left.trim() === value) {
+    return `${left.replace(value, replacement)}:${right}`;
+  }
+  if (right.trim() === value) {
+    return `${left}:${right.replace(value, replacement)}`;
+  }
+  return null;
+}
+
+/**
+ * Replace one part of a specification ("part1: part2; part1: part2"), keeping its spacing
+ * Every pair holding the value is patched
+ * @returns Patched specification, or null if no pair has a part equal to the value
+ */
+function replaceSpecificationPart(specValue: string, value: string, replacement: string): string | null {
+  let replaced = false;
+  const pairs = specValue.split(SPECIFICATION_SEPARATOR).map(pair => {
+    const patched = replacePairPart(pair, value, replacement);
+    replaced = replaced || patched !== null;
+    return patched ?? pair;
+  });
+  return replaced ? pairs.join(SPECIFICATION_SEPARATOR) : null;
+}
+
+/**
+ * Replace an invalid value in a cell value (single value, array element or specification part)
+ * @returns Patched cell value, or undefined if the value was not found
+ */
+function replaceValue(cellValue: any, isSpecificationPart: boolean, value: string, replacement: string): any {
+  if (Array.isArray(cellValue)) {
+    if (!cellValue.some(item => String(item).trim() === value)) return undefined;
+    return cellValue.map(item => (String(item).trim() === value ? replacement : item));
+  }
+
+  if (cellValue === undefined || cellValue === null) return undefined;
+
+  if (isSpecificationPart) {
+    return replaceSpecificationPart(String(cellValue), value, replacement) ?? undefined;
+  }
+
+  return String(cellValue).trim() === value ? replacement : undefined;
+}
+
+/**
+ * Apply typo fixes to records in place
+ * Errors without exactly one suggestion within maxDistance, and errors about a whole
+ * specification (compatibility, order, missing tasks), are left for re-validation to report
+ * @param rows - Records that were validated
+ * @param errors - Validation errors of the records (rows as returned by validateData)
+ * @param maxDistance - Maximum edit distance between a value and its replacement
+ * @returns Applied substitutions
+ */
+export function applyTypoFixes(
+  rows: any[],
+  errors: ValidationError[],
+  maxDistance: number = DEFAULT_FIX_DISTANCE
+): TypoFix[] {
+  const fixes: TypoFix[] = [];
+
+  errors.forEach(error => {
+    const record = rows[error.row - 2];
+    if (!record) return;
+
+    const column = findRecordColumn(record, error.field);
+    if (!column) return;
+
+    const replacement = findTypoFix(error, maxDistance);
+    if (!replacement) return;
+
+    const patched = replaceValue(record[column], column !== error.field, error.value, replacement);
+    if (patched === undefined) return;
+
+    record[column] = patched;
+    fixes.push({ row: error.row, field: error.field, column, value: error.value, replacement });
+  });
+
+  return fixes;
+}
+
+/**
+ * Write a copy of an input workbook with the fixed cells patched (formatting is kept)
+ * @param inputPath - Path to the validated XLSX file
+ * @param sheetName - Validated sheet (first sheet if omitted)
+ * @param rows - Fixed records of the sheet
+ * @param rowNumbers - Excel row of each record
+ * @param fixes - Applied substitutions
+ * @param outputPath - Path of the patched copy
+ */
+export async function writeFixedWorkbook(
+  inputPath: string,
+  sheetName: string | undefined,
+  rows: any[],
+  rowNumbers: number[],
+  fixes: TypoFix[],
+  outputPath: string
+): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(inputPath);
+
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(`Sheet '${sheetName}' not found in ${inputPath}`);
+  }
+
+  fixes.forEach(fix => {
+    const column = findErrorColumn(worksheet, fix.column);
+    const rowIndex = fix.row - 2;
+    if (column && rowNumbers[rowIndex]) {
+      worksheet.getCell(rowNumbers[rowIndex], column).value = flattenObject(rows[rowIndex])[fix.column];
+    }
+  });
+
+  await workbook.xlsx.writeFile(outputPath);
+}
+
+/**
+ * Print the applied substitutions
+ * @param file - Fixed file
+ * @param fixes - Applied substitutions (JSON: record numbers, XLSX: Excel rows)
+ * @param sourceType - Source type for formatting locations
+ */
+export function reportTypoFixes(file: string, fixes: TypoFix[], sourceType: 'JSON' | 'XLSX' | 'CSV' = 'XLSX'): void {
+  console.log(`🔧 ${file} - Fixed ${fixes.length} typo(s):`);
+  fixes.forEach(fix => {
+    const location = sourceType === 'JSON' ? `Record ${fix.row}` : `Row ${fix.row}`;
+    console.log(`   ${location} "${fix.field}": "${fix.value}" → "${fix.replacement}"`);
+  });
+}
+
+/**
+ * Write the change log of every substitution of a run
+ * @param entries - Applied substitutions with the file they were applied to
+ * @param outputDir - Output directory
+ * @returns Path of the written change log
+ */
+export function writeFixLog(entries: FixLogEntry[], outputDir: string): string {
+  const logPath = path.join(outputDir, FIX_LOG_NAME);
+  fs.writeFileSync(logPath, JSON.stringify(entries, null, 2), 'utf-8');
+  return logPath;
+}
@@ -0,0 +1,106 @@
+/**
+ * Task graph helpers built from the inputs/outputs of blueprint_tasks
+ */
+
+/**
+ * Normalize a field value to an array of non-empty trimmed strings
+ * @param value - Array, single value or empty value
+ * @returns Array of strings
+ */
+export function toArray(value: any): string[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(v => String(v).trim()).filter(v => v !== '');
+}
+
+/**
+ * Check whether a task is an enhancement task (adds an enhancement to a taskProduct in place)
+ * @param taskRow - Record from blueprint_tasks
+ * @returns True if the task declares an enhancement
+ */
+export function isEnhancementTask(taskRow: any): boolean {
+  return toArray(taskRow.enhancement).length > 0;
+}
+
+/**
+ * Build relationship: for each taskProduct, which non-enhancement tasks produce it
+ * Enhancement tasks (e.g. Panos → Panos-Blurring → Panos) are left out so the graph has no self-loops
+ * @param tasksData - Records from blueprint_tasks
+ * @returns Record mapping each taskProduct to the tasks that output it
+ */
+export function buildBaseProducers(tasksData: any[]): Record<string, string[]> {
+  const producers: Record<string, string[]> = {};
+
+  tasksData.forEach(taskRow => {
+    if (!taskRow.task || isEnhancementTask(taskRow)) return;
+
+    toArray(taskRow.outputs).forEach(output => {
+      if (!producers[output]) {
+        producers[output] = [];
+      }
+      if (!producers[output].includes(taskRow.task)) {
+        producers[output].push(taskRow.task);
+      }
+    });
+  });
+
+  return producers;
+}
+
+/**
+ * Find the task that adds an enhancement to a taskProduct
+ * (has the enhancement and the taskProduct as both input and output)
+ * @param tasksData - Records from blueprint_tasks
+ * @param enhancement - Enhancement name (e.g. 'Blur')
+ * @param taskProduct - Enhanced taskProduct (e.g. 'Panos')
+ * @returns Matching task record, or undefined
+ */
+export function findEnhancementTask(tasksData: any[], enhancement: string, taskProduct: string): any | undefined {
+  return tasksData.find((taskRow: any) =>
+    taskRow.enhancement === enhancement &&
+    toArray(taskRow.inputs).includes(taskProduct) &&
+    toArray(taskRow.outputs).includes(taskProduct)
+  );
+}
+
+/**
+ * Index task records by task name
+ * @param tasksData - Records from blueprint_tasks
+ * @returns Record mapping task name to its record
+ */
+export function indexTasks(tasksData: any[]): Record<string, any> {
+  const tasksByName: Record<string, any> = {};
+  tasksData.forEach(taskRow => {
+    if (taskRow.task) {
+      tasksByName[taskRow.task] = taskRow;
+    }
+  });
+  return tasksByName;
+}
+
+/**
+ * Find the taskProducts a taskProduct is made from, directly or through other tasks
+ * @param tasksData - Records from blueprint_tasks
+ * @param taskProduct - taskProduct to walk back from
+ * @returns The taskProduct itself and all its ancestors
+ */
+export function findUpstreamProducts(tasksData: any[], taskProduct: string): Set<string> {
+  const upstream = new Set<string>([taskProduct]);
+  const pending = [taskProduct];
+
+  while (pending.length > 0) {
+    const product = pending.pop()!;
+    tasksData
+      .filter(taskRow => toArray(taskRow.outputs).includes(product))
+      .forEach(taskRow => toArray(taskRow.inputs).forEach(input => {
+        if (!upstream.has(input)) {
+          upstream.add(input);
+          pending.push(input);
+        }
+      }));
+  }
+
+  return upstream;
+}
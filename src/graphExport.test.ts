@@ -0,0 +1,87 @@
+import { buildBlueprintGraph, getServiceSubgraph, toDot, toMermaid } from './graphExport';
+import { BlueprintSet } from './types';
+
+const blueprints: BlueprintSet = {
+  taskProducts: [
+    { taskProduct: 'captures', 'enhancement-order': [] },
+    { taskProduct: 'Panos', 'enhancement-order': ['Blur'] },
+    { taskProduct: 'Floor "Plan" v2', 'enhancement-order': [] }
+  ],
+  tasks: [
+    { task: 'Capture', inputs: [], outputs: ['captures'], enhancement: '', responsibility_options: ['client'] },
+    { task: 'Pano-Generation', inputs: ['captures'], outputs: ['Panos'], enhancement: '', responsibility_options: ['auto'] },
+    { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto'] },
+    { task: 'floorplan building', inputs: ['Panos'], outputs: ['Floor "Plan" v2'], enhancement: '', responsibility_options: ['IM-operators'] },
+    { task: 'Tour-building', inputs: ['Panos'], outputs: ['Walkthrough-tour'], enhancement: '', responsibility_options: ['auto'] }
+  ],
+  services: [
+    { Service: 'Floor Plan', taskProduct: 'Floor "Plan" v2', enhancement: '' }
+  ]
+};
+
+describe('Graph export', () => {
+  const graph = buildBlueprintGraph(blueprints);
+
+  test('builds taskProduct and task nodes with input and output edges', () => {
+    expect(graph.taskProducts).toEqual(['captures', 'Panos', 'Floor "Plan" v2', 'Walkthrough-tour']);
+    expect(graph.tasks).toEqual(['Capture', 'Pano-Generation', 'Panos-Blurring', 'floorplan building', 'Tour-building']);
+    expect(graph.enhancementTasks).toEqual(['Panos-Blurring']);
+    expect(graph.edges).toEqual([
+      { from: 'captures', to: 'Pano-Generation', kind: 'input' },
+      { from: 'Panos', to: 'Panos-Blurring', kind: 'input' },
+      { from: 'Panos', to: 'floorplan building', kind: 'input' },
+      { from: 'Panos', to: 'Tour-building', kind: 'input' },
+      { from: 'Capture', to: 'captures', kind: 'output' },
+      { from: 'Pano-Generation', to: 'Panos', kind: 'output' },
+      { from: 'Panos-Blurring', to: 'Panos', kind: 'output' },
+      { from: 'floorplan building', to: 'Floor "Plan" v2', kind: 'output' },
+      { from: 'Tour-building', to: 'Walkthrough-tour', kind: 'output' }
+    ]);
+  });
+
+  test('collects the plan of a service as its subgraph', () => {
+    expect(getServiceSubgraph('Floor Plan', blueprints)).toEqual({
+      taskProducts: new Set(['Floor "Plan" v2', 'Panos', 'captures']),
+      tasks: new Set(['Capture', 'Pano-Generation', 'floorplan building'])
+    });
+    expect(() => getServiceSubgraph('Unknown', blueprints)).toThrow(/not found/);
+  });
+
+  test('renders DOT with quoted ids and dashed enhancement edges', () => {
+    const lines = toDot(graph).split('\n');
+
+    expect(lines.slice(0, 3)).toEqual(['digraph blueprint {', '  rankdir=LR;', '  node [fontname="Helvetica"];']);
+    expect(lines).toContain('  "taskProduct:Floor \\"Plan\\" v2" [label="Floor \\"Plan\\" v2", shape=ellipse];');
+    expect(lines).toContain('  "task:floorplan building" [label="floorplan building", shape=box];');
+    expect(lines).toContain('  "task:Panos-Blurring" [label="Panos-Blurring", shape=box, style="rounded,dashed,filled", fillcolor="#fff5cc"];');
+    expect(lines).toContain('  "taskProduct:Panos" -> "task:Panos-Blurring" [style=dashed];');
+    expect(lines).toContain('  "task:Panos-Blurring" -> "taskProduct:Panos" [style=dashed];');
+    expect(lines).toContain('  "task:floorplan building" -> "taskProduct:Floor \\"Plan\\" v2";');
+    expect(lines[lines.length - 2]).toBe('}');
+  });
+
+  test('highlights the subgraph of a service in DOT and greys out the rest', () => {
+    const lines = toDot(graph, getServiceSubgraph('Floor Plan', blueprints)).split('\n');
+
+    expect(lines).toContain('  "task:Capture" [label="Capture", shape=box, color="#d62728", penwidth=2];');
+    expect(lines).toContain('  "taskProduct:Walkthrough-tour" [label="Walkthrough-tour", shape=ellipse, color="#bbbbbb", fontcolor="#bbbbbb"];');
+    expect(lines).toContain('  "taskProduct:Panos" -> "task:floorplan building" [color="#d62728", penwidth=2];');
+    expect(lines).toContain('  "task:Panos-Blurring" -> "taskProduct:Panos" [style=dashed, color="#bbbbbb"];');
+  });
+
+  test('renders Mermaid with numbered ids, escaped labels and highlighted links', () => {
+    const lines = toMermaid(graph, getServiceSubgraph('Floor Plan', blueprints)).split('\n');
+
+    expect(lines[0]).toBe('flowchart LR');
+    expect(lines).toContain('  p2(["Floor #quot;Plan#quot; v2"])');
+    expect(lines).toContain('  t3["floorplan building"]');
+    expect(lines).toContain('  t2{{"Panos-Blurring"}}');
+    expect(lines).toContain('  p1 -.-> t2');
+    expect(lines).toContain('  t2 -.-> p1');
+    expect(lines).toContain('  t3 --> p2');
+    expect(lines).toContain('  class t2 enhancement;');
+    expect(lines).toContain('  class p0,p1,p2,t0,t1,t3 highlight;');
+    expect(lines).toContain('  linkStyle 0,2,4,5,7 stroke:#d62728,stroke-width:3px;');
+    expect(toMermaid(graph)).not.toContain('highlight');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Export of the task / taskProduct graph as Graphviz DOT or Mermaid
+ */
+
+import { buildTaskProductProducers } from './validation';
+import { toArray, isEnhancementTask } from './graph';
+import { planService } from './planner';
+import { BlueprintSet, BlueprintGraph, GraphHighlight } from './types';
+
+/**
+ * Supported graph export formats
+ */
+export const GRAPH_FORMATS = ['dot', 'mermaid'];
+
+/**
+ * Build the bipartite task / taskProduct graph from blueprint data
+ * @param blueprints - Loaded blueprint_task_products and blueprint_tasks records
+ * @returns Graph with taskProducts and tasks as nodes and inputs/outputs as edges
+ */
+export function buildBlueprintGraph(blueprints: BlueprintSet): BlueprintGraph {
+  const taskProducts = new Set<string>();
+  blueprints.taskProducts.forEach(row => {
+    if (row.taskProduct) taskProducts.add(row.taskProduct);
+  });
+
+  const graph: BlueprintGraph = { taskProducts: [], tasks: [], enhancementTasks: [], edges: [] };
+
+  blueprints.tasks.forEach(taskRow => {
+    if (!taskRow.task) return;
+    graph.tasks.push(taskRow.task);
+    if (isEnhancementTask(taskRow)) {
+      graph.enhancementTasks.push(taskRow.task);
+    }
+    toArray(taskRow.inputs).forEach(input => {
+      taskProducts.add(input);
+      graph.edges.push({ from: input, to: taskRow.task, kind: 'input' });
+    });
+  });
+
+  const taskProductProducers = buildTaskProductProducers(blueprints.tasks);
+  Object.keys(taskProductProducers).forEach(taskProduct => {
+    taskProducts.add(taskProduct);
+    taskProductProducers[taskProduct].forEach(task => {
+      graph.edges.push({ from: task, to: taskProduct, kind: 'output' });
+    });
+  });
+
+  graph.taskProducts = Array.from(taskProducts);
+  return graph;
+}
+
+/**
+ * Collect the subgraph a service uses: the tasks and taskProducts of its selected execution plan
+ * @param serviceName - Value of the Service column
+ * @param blueprints - Loaded blueprint records
+ * @returns Highlighted nodes
+ * @throws Error if the service is not in blueprint_services
+ */
+export function getServiceSubgraph(serviceName: string, blueprints: BlueprintSet): GraphHighlight {
+  const plan = planService(serviceName, blueprints);
+  const highlight: GraphHighlight = { taskProducts: new Set(), tasks: new Set() };
+
+  if (plan.selected) {
+    plan.selected.steps.forEach(step => highlight.tasks.add(step.task));
+    Object.keys(plan.selected.choices).forEach(taskProduct => highlight.taskProducts.add(taskProduct));
+    plan.selected.externalInputs.forEach(taskProduct => highlight.taskProducts.add(taskProduct));
+  }
+
+  return highlight;
+}
+
+/**
+ * Check whether an edge lies inside the highlighted subgraph
+ */
+function isHighlightedEdge(
+  edge: { from: string; to: string; kind: 'input' | 'output' },
+  highlight: GraphHighlight
+): boolean {
+  return edge.kind === 'input'
+    ? highlight.taskProducts.has(edge.from) && highlight.tasks.has(edge.to)
+    : highlight.tasks.has(edge.from) && highlight.taskProducts.has(edge.to);
+}
+
+/**
+ * Quote a string as a DOT identifier
+ */
+function dotQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Render a blueprint graph as Graphviz DOT
+ * @param graph - Graph from buildBlueprintGraph
+ * @param highlight - Optional subgraph to highlight (other nodes are greyed out)
+ * @returns DOT source
+ */
+export function toDot(graph: BlueprintGraph, highlight?: GraphHighlight): string {
+  const productId = (name: string) => dotQuote(`taskProduct:${name}`);
+  const taskId = (name: string) => dotQuote(`task:${name}`);
+  const dimmed = 'color="#bbbbbb", fontcolor="#bbbbbb"';
+  const highlighted = 'color="#d62728", penwidth=2';
+
+  const lines: string[] = [];
+  lines.push('digraph blueprint {');
+  lines.push('  rankdir=LR;');
+  lines.push('  node [fontname="Helvetica"];');
+  lines.push('');
+
+  graph.taskProducts.forEach(name => {
+    const attributes = [`label=${dotQuote(name)}`, 'shape=ellipse'];
+    if (highlight) {
+      attributes.push(highlight.taskProducts.has(name) ? highlighted : dimmed);
+    }
+    lines.push(`  ${productId(name)} [${attributes.join(', ')}];`);
+  });
+  lines.push('');
+
+  graph.tasks.forEach(name => {
+    const attributes = [`label=${dotQuote(name)}`, 'shape=box'];
+    if (graph.enhancementTasks.includes(name)) {
+      attributes.push('style="rounded,dashed,filled"', 'fillcolor="#fff5cc"');
+    }
+    if (highlight) {
+      attributes.push(highlight.tasks.has(name) ? highlighted : dimmed);
+    }
+    lines.push(`  ${taskId(name)} [${attributes.join(', ')}];`);
+  });
+  lines.push('');
+
+  graph.edges.forEach(edge => {
+    const from = edge.kind === 'input' ? productId(edge.from) : taskId(edge.from);
+    const to = edge.kind === 'input' ? taskId(edge.to) : productId(edge.to);
+    const attributes: string[] = [];
+    if (graph.enhancementTasks.includes(edge.kind === 'input' ? edge.to : edge.from)) {
+      attributes.push('style=dashed');
+    }
+    if (highlight) {
+      attributes.push(isHighlightedEdge(edge, highlight) ? highlighted : 'color="#bbbbbb"');
+    }
+    lines.push(`  ${from} -> ${to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape a label for Mermaid
+ */
+function mermaidLabel(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
+
+/**
+ * Render a blueprint graph as a Mermaid flowchart
+ * @param graph - Graph from buildBlueprintGraph
+ * @param highlight - Optional subgraph to highlight
+ * @returns Mermaid source
+ */
+export function toMermaid(graph: BlueprintGraph, highlight?: GraphHighlight): string {
+  // Mermaid node ids must be plain identifiers, so number the nodes
+  const productIds: Record<string, string> = {};
+  const taskIds: Record<string, string> = {};
+  graph.taskProducts.forEach((name, idx) => { productIds[name] = `p${idx}`; });
+  graph.tasks.forEach((name, idx) => { taskIds[name] = `t${idx}`; });
+
+  const lines: string[] = [];
+  lines.push('flowchart LR');
+
+  graph.taskProducts.forEach(name => {
+    lines.push(`  ${productIds[name]}([${mermaidLabel(name)}])`);
+  });
+  graph.tasks.forEach(name => {
+    const label = mermaidLabel(name);
+    lines.push(graph.enhancementTasks.includes(name)
+      ? `  ${taskIds[name]}{{${label}}}`
+      : `  ${taskIds[name]}[${label}]`);
+  });
+
+  const highlightedLinks: number[] = [];
+  graph.edges.forEach((edge, idx) => {
+    const from = edge.kind === 'input' ? productIds[edge.from] : taskIds[edge.from];
+    const to = edge.kind === 'input' ? taskIds[edge.to] : productIds[edge.to];
+    const enhancement = graph.enhancementTasks.includes(edge.kind === 'input' ? edge.to : edge.from);
+    lines.push(`  ${from} ${enhancement ? '-.->' : '-->'} ${to}`);
+    if (highlight && isHighlightedEdge(edge, highlight)) {
+      highlightedLinks.push(idx);
+    }
+  });
+
+  lines.push('');
+  lines.push('  classDef enhancement fill:#fff5cc,stroke-dasharray:5 5;');
+  if (graph.enhancementTasks.length > 0) {
+    lines.push(`  class ${graph.enhancementTasks.map(name => taskIds[name]).join(',')} enhancement;`);
+  }
+
+  if (highlight) {
+    const highlightedNodes = [
+      ...graph.taskProducts.filter(name => highlight.taskProducts.has(name)).map(name => productIds[name]),
+      ...graph.tasks.filter(name => highlight.tasks.has(name)).map(name => taskIds[name])
+    ];
+    lines.push('  classDef highlight stroke:#d62728,stroke-width:3px;');
+    if (highlightedNodes.length > 0) {
+      lines.push(`  class ${highlightedNodes.join(',')} highlight;`);
+    }
+    if (highlightedLinks.length > 0) {
+      lines.push(`  linkStyle ${highlightedLinks.join(',')} stroke:#d62728,stroke-width:3px;`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,54 @@
+import { lintGraph, findProductCycles } from './graphLint';
+import { BlueprintSet } from './types';
+
+const taskProducts = ['captures', 'Panos', 'scaffold', 'Floorplan'].map(taskProduct => ({
+  taskProduct,
+  'enhancement-order': []
+}));
+
+const tasks = [
+  { task: 'Data-Acquisition', inputs: [], outputs: ['captures'], enhancement: '' },
+  { task: 'Pano-Generation', inputs: ['captures'], outputs: ['Panos'], enhancement: '' },
+  { task: 'Geometry-building', inputs: ['Panos'], outputs: ['scaffold'], enhancement: '' },
+  { task: 'floorplan-building', inputs: ['scaffold'], outputs: ['Floorplan'], enhancement: '' },
+  { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur' }
+];
+
+const services = [{ Service: 'Floor Plan', taskProduct: 'Floorplan' }];
+
+describe('Graph lint', () => {
+  test('reports nothing for a sound graph with enhancement self-loops', () => {
+    const blueprints: BlueprintSet = { taskProducts, tasks, services };
+    
+    expect(lintGraph(blueprints)).toEqual([]);
+  });
+
+  test('flags unproduced, unused and unknown inputs', () => {
+    const blueprints: BlueprintSet = {
+      taskProducts: [...taskProducts, { taskProduct: 'preconInput', 'enhancement-order': [] }],
+      tasks: [...tasks, { task: 'Geometry-building-precon', inputs: ['preconInput'], outputs: ['scaffold'], enhancement: '' }],
+      services: []
+    };
+    const rules = lintGraph(blueprints).map(issue => `${issue.rule}:${issue.subject}`);
+    
+    expect(rules).toContain('unproduced-product:preconInput');
+    expect(rules).toContain('unused-product:Floorplan');
+    expect(rules).toContain('unknown-input:Geometry-building-precon');
+  });
+
+  test('flags products that cannot be reached and dependency cycles', () => {
+    const blueprints: BlueprintSet = {
+      taskProducts,
+      tasks: [
+        ...tasks.filter(t => t.task !== 'Geometry-building'),
+        { task: 'Geometry-building', inputs: ['Panos', 'Floorplan'], outputs: ['scaffold'], enhancement: '' }
+      ],
+      services
+    };
+    const issues = lintGraph(blueprints);
+    
+    expect(issues.filter(issue => issue.rule === 'unreachable-product').map(issue => issue.subject))
+      .toEqual(['scaffold', 'Floorplan']);
+    expect(findProductCycles(blueprints.tasks)).toEqual([['scaffold', 'Floorplan']]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Task graph lint: orphan products, unreachable products and dependency cycles
+ */
+
+import { toArray, isEnhancementTask, buildBaseProducers } from './graph';
+import { BlueprintSet, GraphLintIssue } from './types';
+
+/**
+ * Find taskProducts reachable from source tasks (tasks without inputs, e.g. Data-Acquisition)
+ * A task runs once all of its inputs are reachable; its outputs then become reachable
+ * @param tasksData - Records from blueprint_tasks
+ * @returns Set of reachable taskProducts
+ */
+export function findReachableProducts(tasksData: any[]): Set<string> {
+  const reachable = new Set<string>();
+  const pending = tasksData.filter(taskRow => taskRow.task && !isEnhancementTask(taskRow));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const taskRow = pending[i];
+      if (toArray(taskRow.inputs).every(input => reachable.has(input))) {
+        toArray(taskRow.outputs).forEach(output => reachable.add(output));
+        pending.splice(i, 1);
+        changed = true;
+      }
+    }
+  }
+
+  return reachable;
+}
+
+/**
+ * Find dependency cycles between taskProducts
+ * Self-loops (a task that outputs one of its own inputs, e.g. Panos → Panos-Blurring → Panos) are ignored
+ * @param tasksData - Records from blueprint_tasks
+ * @returns Array of cycles, each a list of taskProducts where the last depends on the first
+ */
+export function findProductCycles(tasksData: any[]): string[][] {
+  // taskProduct → taskProducts derived from it
+  const successors: Record<string, Set<string>> = {};
+  tasksData.forEach(taskRow => {
+    if (!taskRow.task || isEnhancementTask(taskRow)) return;
+    const inputs = toArray(taskRow.inputs);
+    const outputs = toArray(taskRow.outputs);
+    inputs.forEach(input => {
+      outputs.forEach(output => {
+        if (input === output) return;
+        if (!successors[input]) successors[input] = new Set();
+        successors[input].add(output);
+      });
+    });
+  });
+
+  const cycles: string[][] = [];
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const stack: string[] = [];
+
+  const visit = (product: string) => {
+    state[product] = 'visiting';
+    stack.push(product);
+
+    (successors[product] || new Set<string>()).forEach(next => {
+      if (state[next] === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(next)));
+      } else if (!state[next]) {
+        visit(next);
+      }
+    });
+
+    stack.pop();
+    state[product] = 'done';
+  };
+
+  Object.keys(successors).forEach(product => {
+    if (!state[product]) visit(product);
+  });
+
+  return cycles;
+}
+
+/**
+ * Lint the task / taskProduct graph
+ * @param blueprints - Loaded blueprint records (services are used to find sold taskProducts)
+ * @returns Array of issues (empty if the graph is sound)
+ */
+export function lintGraph(blueprints: BlueprintSet): GraphLintIssue[] {
+  const issues: GraphLintIssue[] = [];
+  const producers = buildBaseProducers(blueprints.tasks);
+  const reachable = findReachableProducts(blueprints.tasks);
+
+  const consumed = new Set<string>();
+  blueprints.tasks.forEach(taskRow => {
+    if (isEnhancementTask(taskRow)) return;
+    toArray(taskRow.inputs).forEach(input => consumed.add(input));
+  });
+
+  const sold = new Set<string>();
+  blueprints.services.forEach(service => {
+    toArray(service.taskProduct).forEach(taskProduct => sold.add(taskProduct));
+  });
+
+  // taskProducts declared in blueprint_task_products
+  blueprints.taskProducts.forEach(row => {
+    const taskProduct = row.taskProduct;
+    if (!taskProduct) return;
+
+    if (!producers[taskProduct]) {
+      issues.push({
+        rule: 'unproduced-product',
+        severity: 'error',
+        subject: taskProduct,
+        message: `taskProduct "${taskProduct}" is not an output of any task`
+      });
+    } else if (!reachable.has(taskProduct)) {
+      issues.push({
+        rule: 'unreachable-product',
+        severity: 'error',
+        subject: taskProduct,
+        message: `taskProduct "${taskProduct}" cannot be produced starting from source tasks (${producers[taskProduct].join(', ')})`
+      });
+    }
+
+    if (!consumed.has(taskProduct) && !sold.has(taskProduct)) {
+      issues.push({
+        rule: 'unused-product',
+        severity: 'warning',
+        subject: taskProduct,
+        message: `taskProduct "${taskProduct}" is not an input of any task and no service sells it`
+      });
+    }
+  });
+
+  // Task inputs that nothing produces
+  blueprints.tasks.forEach(taskRow => {
+    if (!taskRow.task) return;
+    toArray(taskRow.inputs).forEach(input => {
+      if (!producers[input]) {
+        issues.push({
+          rule: 'unknown-input',
+          severity: 'error',
+          subject: taskRow.task,
+          message: `Task "${taskRow.task}" needs input "${input}" which no task outputs`
+        });
+      }
+    });
+  });
+
+  findProductCycles(blueprints.tasks).forEach(cycle => {
+    issues.push({
+      rule: 'cycle',
+      severity: 'error',
+      subject: cycle[0],
+      message: `Dependency cycle: ${[...cycle, cycle[0]].join(' → ')}`
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Report graph lint issues to console
+ * @param issues - Issues returned by lintGraph
+ */
+export function reportGraphLintIssues(issues: GraphLintIssue[]): void {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  console.log(`🔎 Graph lint: ${errorCount} error(s), ${warningCount} warning(s)`);
+  issues.forEach(issue => {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    console.log(`   ${icon} [${issue.rule}] ${issue.message}`);
+  });
+}
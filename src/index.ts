@@ -3,428 +3,491 @@
 import { program } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { flattenObject } from './transforms';
-import { 
-  readExcelData, 
-  formatSize,
-  writeExcelData,
-  reportSummary,
-  waitForKeypress
-} from './utils';
-import { 
-  loadFieldOptions, 
-  validateData, 
-  reportValidationErrors,
-  initializeAvailableOptions,
-  updateAvailableOptions,
-  extractUniqueValues,
-  buildTaskResponsibilities,
-  buildTaskProductProducers,
-  buildTaskProductEnhancements,
-  updateAvailableOptionsRelationships,
-  buildServiceSpecifications,
-  updateAvailableOptionsServiceSpecs
-} from './validation';
-import { TransformSummary } from './types';
+import ExcelJS from 'exceljs';
+import { flattenObject, normalizeSpecifications, denormalizeSpecifications } from './transforms';
+import { readExcelData, waitForKeypress, writeExcelData } from './utils';
+import { DEFAULT_OPTIONS_STORE, LEARN_MODES } from './validation';
+import { DEFAULT_BLUEPRINT_FILES, loadBlueprintSet, readBlueprintFile, getBlueprintBaseName } from './blueprints';
+import { detectBlueprintSchema, diffBlueprints, reportBlueprintDiff } from './blueprintDiff';
+import { planService, reportServicePlan } from './planner';
+import { ESTIMATE_FORMATS, estimateService, estimateServices, summarizeEstimates, reportServiceEstimate, reportServiceEstimates } from './estimates';
+import { lintGraph, reportGraphLintIssues } from './graphLint';
+import { GRAPH_FORMATS, buildBlueprintGraph, getServiceSubgraph, toDot, toMermaid } from './graphExport';
+import { BLUEPRINT_SCHEMAS, selectBlueprintsToRerun } from './schema';
+import { REPORT_FORMATS } from './reports';
+import { readOptionsSnapshot, diffOptions, reportOptionsDiff } from './optionsDiff';
+import { DEFAULT_FIX_DISTANCE } from './fix';
+import { readSyncMetadata, syncRecords, reportSyncResult } from './sync';
+import { watchPipeline } from './watch';
+import { DEFAULT_PORT, createServer } from './server';
+import { QUERY_FORMATS, queryServicesUsing, queryProducers, queryResponsibilities, queryService, reportQueryResult } from './query';
+import { BLUEPRINT_WORKBOOK_NAME, OUTPUT_FORMATS, transformJsonFiles, transformTableFiles, transformDelimitedFiles, reportTransformEvent } from './pipeline';
+import { TransformOptions, TransformEvent, OptionsStore, QueryResult } from './types';
 
 /**
- * Learning configuration for each blueprint file
- * Defines which fields to learn and whether to validate
+ * Print the progress of a run, waiting for a keypress after initialization and each converted file in step mode
+ * @param stepMode - If true, wait for keypress after each file
+ * @returns Event listener for TransformOptions.onEvent
  */
-const LEARNING_CONFIG: Record<string, { learnFields: string[], validate: boolean }> = {
-  'blueprint_task_products': { learnFields: ['taskProduct', 'enhancement-order'], validate: false },
-  'blueprint_tasks': { learnFields: ['enhancement', 'responsibility_options', 'task'], validate: true },
-  'blueprint_services': { learnFields: ['Service'], validate: true }
-};
+function createConsoleReporter(stepMode: boolean): (event: TransformEvent) => Promise<void> {
+  return async event => {
+    reportTransformEvent(event);
+    if (stepMode && (event.type === 'init' || (event.type === 'file' && event.file.status === 'converted'))) {
+      await waitForKeypress();
+    }
+  };
+}
 
 /**
- * Build and save relationship mappings after processing blueprint_tasks
- * @param fileBaseName - Name of the file being processed
- * @param taskProductsData - Data from blueprint_task_products
- * @param tasksData - Data from blueprint_tasks
+ * Transform from JSON - Convert specified JSON files to XLSX with progressive learning, printing the progress
+ * Processes files in blueprint dependency order (upstream blueprints first)
+ * @param filePaths - Array of JSON file paths to transform
+ * @param stepMode - If true, wait for keypress after each file
+ * @param options - Transform options (see transformJsonFiles);
+ *                  watch: part of a --watch session, fatal errors are reported without exiting
  */
-function buildAndSaveRelationshipsAfterTasks(
-  fileBaseName: string,
-  taskProductsData: any[],
-  tasksData: any[]
-): void {
-  // Build relationships after processing blueprint_tasks (when we have both task_products and tasks data)
-  if (fileBaseName === 'blueprint_tasks' && taskProductsData.length > 0 && tasksData.length > 0) {
-    console.log('─'.repeat(80));
-    console.log('🔗 Building relationships...');
-    
-    const taskResponsibilities = buildTaskResponsibilities(tasksData);
-    const taskProductProducers = buildTaskProductProducers(tasksData);
-    const taskProductEnhancements = buildTaskProductEnhancements(taskProductsData);
-    
-    updateAvailableOptionsRelationships(
-      taskResponsibilities,
-      taskProductProducers,
-      taskProductEnhancements
-    );
-    
-    console.log(`   ✅ Built ${Object.keys(taskResponsibilities).length} task → responsibilities mappings`);
-    console.log(`   ✅ Built ${Object.keys(taskProductProducers).length} taskProduct → producers mappings`);
-    console.log(`   ✅ Built ${Object.keys(taskProductEnhancements).length} taskProduct → enhancements mappings`);
+async function transform_from_json(
+  filePaths: string[],
+  stepMode: boolean = false,
+  options: TransformOptions = {}
+): Promise<void> {
+  try {
+    await transformJsonFiles(filePaths, { ...options, onEvent: createConsoleReporter(stepMode) });
+  } catch (error) {
+    console.error('Fatal error:', error);
+    if (!options.watch) {
+      process.exit(1);
+    }
   }
 }
 
 /**
- * Build and save service specifications after processing blueprint_services
- * @param fileBaseName - Name of the file being processed
- * @param servicesData - Data from blueprint_services
+ * Transform from Table - Convert specified XLSX files to JSON with progressive learning, printing the progress
+ * Processes files in blueprint dependency order (upstream blueprints first)
+ * @param filePaths - Array of XLSX file paths to transform
+ * @param stepMode - If true, wait for keypress after each file
+ * @param options - Transform options (see transformTableFiles);
+ *                  watch: part of a --watch session, fatal errors are reported without exiting
  */
-function buildAndSaveServiceSpecsAfterServices(
-  fileBaseName: string,
-  servicesData: any[]
-): void {
-  // Build service specifications if we just finished processing blueprint_services
-  if (fileBaseName === 'blueprint_services' && servicesData.length > 0) {
-    console.log('─'.repeat(80));
-    console.log('📋 Building service specifications...');
-    
-    const serviceSpecs = buildServiceSpecifications(servicesData);
-    updateAvailableOptionsServiceSpecs(serviceSpecs);
-    
-    console.log(`   ✅ Built ${Object.keys(serviceSpecs).length} service specifications`);
+async function transform_from_table(
+  filePaths: string[],
+  stepMode: boolean = false,
+  options: TransformOptions = {}
+): Promise<void> {
+  try {
+    await transformTableFiles(filePaths, { ...options, onEvent: createConsoleReporter(stepMode) });
+  } catch (error) {
+    console.error('Fatal error:', error);
+    if (!options.watch) {
+      process.exit(1);
+    }
   }
 }
 
 /**
- * Transform from JSON - Convert specified JSON files to XLSX with progressive learning
- * Processes files in the order provided on command line
- * @param filePaths - Array of JSON file paths to transform
+ * Transform from CSV - Convert specified CSV / TSV files to JSON with progressive learning, printing the progress
+ * Processes files in blueprint dependency order (upstream blueprints first)
+ * @param filePaths - Array of .csv / .tsv file paths to transform
  * @param stepMode - If true, wait for keypress after each file
+ * @param options - Transform options (see transformDelimitedFiles);
+ *                  watch: part of a --watch session, fatal errors are reported without exiting
  */
-async function transform_from_json(filePaths: string[], stepMode: boolean = false): Promise<void> {
+async function transform_from_csv(
+  filePaths: string[],
+  stepMode: boolean = false,
+  options: TransformOptions = {}
+): Promise<void> {
   try {
-    console.log('\n🎓 Starting Transform with Progressive Learning...\n');
+    await transformDelimitedFiles(filePaths, { ...options, onEvent: createConsoleReporter(stepMode) });
+  } catch (error) {
+    console.error('Fatal error:', error);
+    if (!options.watch) {
+      process.exit(1);
+    }
+  }
+}
+
+// Configure CLI
+program
+  .name('transform')
+  .description('CLI tool to transform and process JSON, XLSX and CSV files')
+  .version('1.0.0');
+
+program
+  .option('--input-json <files...>', 'JSON files to convert to XLSX (space-separated)')
+  .option('--input-table <files...>', 'XLSX files to convert to JSON (space-separated)')
+  .option('--input-workbook <files...>', 'Multi-sheet blueprint workbooks to convert to JSON (sheets read by name)')
+  .option('--input-csv <files...>', 'CSV or TSV files (by extension) to convert to JSON (space-separated)')
+  .option('--output-format <format>', `With --input-json, format to convert to (${OUTPUT_FORMATS.join(', ')})`, 'xlsx')
+  .option('--single-workbook', `With --input-json, write all blueprints into one ${BLUEPRINT_WORKBOOK_NAME}`)
+  .option('--dropdowns', 'With --input-json, add dropdown lists to vocabulary columns')
+  .option('--sync-metadata', 'With --input-json, record the JSON sources in the workbook for `transform sync`')
+  .option('--annotate-errors', 'With --input-table / --input-workbook, write a copy of invalid workbooks with the errors marked')
+  .option('--normalized-json', 'With --input-table / --input-workbook / --input-csv, write specification columns as structured lists')
+  .option('--report-format <format>', `Also write the validation errors as a report (${REPORT_FORMATS.join(', ')})`)
+  .option('--fix', 'Replace invalid values with their only close suggestion and re-validate')
+  .option('--fix-distance <n>', 'Maximum edit distance of a --fix substitution', String(DEFAULT_FIX_DISTANCE))
+  .option('--options-file <file>', 'Learned options store (default: available_options.json next to the tool)')
+  .option('--learn <mode>', `How the run updates the options store (${LEARN_MODES.join(', ')})`, DEFAULT_OPTIONS_STORE.learn)
+  .option('--step', 'Wait for keypress after processing each file')
+  .option('--watch', 'Keep running and re-run whenever one of the input files changes')
+  .action(async (options) => {
+    const stepMode = options.step || false;
     
-    // Step 1: Initialize available_options.json
-    console.log('📝 Initializing available_options.json...');
-    initializeAvailableOptions();
+    if (options.reportFormat && !REPORT_FORMATS.includes(options.reportFormat)) {
+      console.error(`Error: Unknown report format '${options.reportFormat}' (expected ${REPORT_FORMATS.join(', ')})`);
+      process.exit(1);
+    }
     
-    // Wait for keypress if step mode is enabled (after initialization)
-    if (stepMode) {
-      await waitForKeypress();
+    if (!LEARN_MODES.includes(options.learn)) {
+      console.error(`Error: Unknown learn mode '${options.learn}' (expected ${LEARN_MODES.join(', ')})`);
+      process.exit(1);
     }
+    const optionsStore: OptionsStore = {
+      filePath: options.optionsFile ? path.resolve(options.optionsFile) : DEFAULT_OPTIONS_STORE.filePath,
+      learn: options.learn
+    };
     
-    // Determine output directory from first file
-    const firstFile = filePaths[0];
-    const firstDir = path.dirname(path.resolve(firstFile));
-    const outputDir = path.join(firstDir, 'outputs');
+    const fixDistance = parseInt(options.fixDistance, 10);
+    if (isNaN(fixDistance) || fixDistance < 1) {
+      console.error(`Error: --fix-distance must be a positive integer (got '${options.fixDistance}')`);
+      process.exit(1);
+    }
     
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+    if (!OUTPUT_FORMATS.includes(options.outputFormat)) {
+      console.error(`Error: Unknown output format '${options.outputFormat}' (expected ${OUTPUT_FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+    const xlsxOnly = ['singleWorkbook', 'dropdowns', 'syncMetadata'].filter(option => options[option]);
+    if (options.outputFormat !== 'xlsx' && xlsxOnly.length > 0) {
+      console.error(`Error: --output-format ${options.outputFormat} cannot be combined with ${xlsxOnly.map(option => `--${option.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`).join(', ')}`);
+      process.exit(1);
     }
     
-    let successCount = 0;
-    let errorCount = 0;
+    if (options.watch && stepMode) {
+      console.error('Error: --watch cannot be combined with --step');
+      process.exit(1);
+    }
+    const watch = options.watch || false;
     
-    // Store data for relationship building and validation
-    let taskProductsData: any[] = [];
-    let tasksData: any[] = [];
-    let servicesData: any[] = [];
+    let inputFiles: string[];
+    let run: (filePaths: string[]) => Promise<void>;
+    if (options.inputJson) {
+      inputFiles = options.inputJson;
+      run = filePaths => transform_from_json(filePaths, stepMode, {
+        outputFormat: options.outputFormat,
+        singleWorkbook: options.singleWorkbook || false,
+        dropdowns: options.dropdowns || false,
+        syncMetadata: options.syncMetadata || false,
+        reportFormat: options.reportFormat,
+        fix: options.fix || false,
+        fixDistance,
+        optionsStore,
+        watch
+      });
+    } else if (options.inputTable) {
+      inputFiles = options.inputTable;
+      run = filePaths => transform_from_table(filePaths, stepMode, {
+        annotateErrors: options.annotateErrors || false,
+        normalizedJson: options.normalizedJson || false,
+        reportFormat: options.reportFormat,
+        fix: options.fix || false,
+        fixDistance,
+        optionsStore,
+        watch
+      });
+    } else if (options.inputWorkbook) {
+      inputFiles = options.inputWorkbook;
+      run = filePaths => transform_from_table(filePaths, stepMode, {
+        workbookMode: true,
+        annotateErrors: options.annotateErrors || false,
+        normalizedJson: options.normalizedJson || false,
+        reportFormat: options.reportFormat,
+        fix: options.fix || false,
+        fixDistance,
+        optionsStore,
+        watch
+      });
+    } else if (options.inputCsv) {
+      inputFiles = options.inputCsv;
+      run = filePaths => transform_from_csv(filePaths, stepMode, {
+        normalizedJson: options.normalizedJson || false,
+        reportFormat: options.reportFormat,
+        fix: options.fix || false,
+        fixDistance,
+        optionsStore,
+        watch
+      });
+    } else {
+      console.error('Error: You must specify either --input-json, --input-table, --input-workbook or --input-csv');
+      program.help();
+    }
     
-    console.log('─'.repeat(80));
+    await run(inputFiles);
     
-    for (const filePath of filePaths) {
-      const resolvedPath = path.resolve(filePath);
-      const fileName = path.basename(resolvedPath);
-      const fileBaseName = fileName.replace('.json', '');
+    // Keep running, re-validating the changed files and everything downstream of them
+    if (watch) {
+      watchPipeline(
+        inputFiles,
+        changed => selectBlueprintsToRerun(inputFiles, changed, getBlueprintBaseName),
+        run
+      );
+    }
+  });
+
+program
+  .command('plan <service>')
+  .description('Print the ordered task chain and responsibilities needed to deliver a service')
+  .option('--blueprints <files...>', 'Blueprint files (JSON or XLSX) to read', DEFAULT_BLUEPRINT_FILES)
+  .action(async (service: string, options) => {
+    try {
+      const blueprints = await loadBlueprintSet(options.blueprints);
+      const plan = planService(service, blueprints);
+      reportServicePlan(plan);
+      if (plan.orderViolations.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('estimate [service]')
+  .description('Roll up task durations and costs into the turnaround (critical path) and cost of services')
+  .option('--responsibility <name>', 'Use this responsibility wherever a task allows it (e.g. IM-operators)')
+  .option('--format <format>', `Output format (${ESTIMATE_FORMATS.join(', ')})`, 'table')
+  .option('--output <file>', 'Also export the estimates (.xlsx: one row per service, otherwise JSON)')
+  .option('--blueprints <files...>', 'Blueprint files (JSON or XLSX) to read', DEFAULT_BLUEPRINT_FILES)
+  .action(async (service: string | undefined, options) => {
+    try {
+      if (!ESTIMATE_FORMATS.includes(options.format)) {
+        throw new Error(`Unknown format '${options.format}' (expected ${ESTIMATE_FORMATS.join(' or ')})`);
+      }
       
-      // Get learning config for this file
-      const config = LEARNING_CONFIG[fileBaseName] || { learnFields: [], validate: true };
+      const blueprints = await loadBlueprintSet(options.blueprints);
+      const estimates = service
+        ? [estimateService(service, blueprints, options.responsibility)]
+        : estimateServices(blueprints, options.responsibility);
       
-      if (!fs.existsSync(resolvedPath)) {
-        console.log(`⚠️  ${fileName} - Not found, skipping`);
-        continue;
+      if (options.format === 'json') {
+        console.log(JSON.stringify(service ? estimates[0] : estimates, null, 2));
+      } else if (service) {
+        reportServiceEstimate(estimates[0]);
+      } else {
+        reportServiceEstimates(estimates);
       }
       
-      try {
-        const outputFileName = fileName.replace('.json', '.xlsx');
-        const outputPath = path.join(outputDir, outputFileName);
-        
-        // Read JSON file
-        const jsonContent = fs.readFileSync(resolvedPath, 'utf-8');
-        let jsonData;
-        
-        try {
-          jsonData = JSON.parse(jsonContent);
-        } catch (parseError) {
-          console.log(`⚠️  ${fileName} - Invalid JSON, skipping`);
-          errorCount++;
-          continue;
-        }
-        
-        // Handle empty or invalid JSON
-        if (!jsonData || (Array.isArray(jsonData) && jsonData.length === 0)) {
-          console.log(`⚠️  ${fileName} - Empty JSON, skipping`);
-          errorCount++;
-          continue;
-        }
-        
-        // Convert to array for validation
-        const dataArray = Array.isArray(jsonData) ? jsonData : [jsonData];
-        
-        // Store data for relationship building and validation
-        if (fileBaseName === 'blueprint_task_products') {
-          taskProductsData = dataArray;
-        } else if (fileBaseName === 'blueprint_tasks') {
-          tasksData = dataArray;
-        } else if (fileBaseName === 'blueprint_services') {
-          servicesData = dataArray;
-        }
-        
-        // Validate if required
-        if (config.validate) {
-          const fieldOptions = loadFieldOptions();
-          // Add tasksData to fieldOptions for enhanced validation
-          if (tasksData.length > 0) {
-            (fieldOptions as any)['_tasksData'] = tasksData;
-          }
-          const validationErrors = validateData(dataArray, fieldOptions);
-          
-          if (validationErrors.length > 0) {
-            reportValidationErrors(fileName, validationErrors, 'JSON');
-            errorCount++;
-            continue;
-          }
-        }
-        
-        // Learn from this file
-        for (const fieldName of config.learnFields) {
-          const values = extractUniqueValues(dataArray, fieldName);
-          if (values.length > 0) {
-            updateAvailableOptions(fieldName, values);
-          }
-        }
-        
-        // Flatten the data
-        let flattenedData: any[];
-        if (Array.isArray(jsonData)) {
-          flattenedData = jsonData.map(item => flattenObject(item));
-        } else if (typeof jsonData === 'object') {
-          flattenedData = [flattenObject(jsonData)];
+      if (options.output) {
+        if (options.output.toLowerCase().endsWith('.xlsx')) {
+          const workbook = await writeExcelData(summarizeEstimates(estimates).rows, { sheetName: 'service_estimates', columnWidth: 40, boldHeaders: true });
+          await workbook.xlsx.writeFile(options.output);
         } else {
-          console.log(`⚠️  ${fileName} - Invalid JSON structure, skipping`);
-          errorCount++;
-          continue;
-        }
-        
-        // Create Excel workbook using utility function
-        const sheetName = fileBaseName.substring(0, 31);
-        const workbook = await writeExcelData(flattenedData, {
-          sheetName,
-          columnWidth: 40,
-          boldHeaders: true
-        });
-        
-        // Write XLSX file
-        await workbook.xlsx.writeFile(outputPath);
-        
-        const inputSize = fs.statSync(resolvedPath).size;
-        const outputSize = fs.statSync(outputPath).size;
-        
-        console.log(`✅ ${fileName} (${formatSize(inputSize)}) → ${outputFileName} (${formatSize(outputSize)})`);
-        if (config.learnFields.length > 0) {
-          console.log(`   📚 Learned: ${config.learnFields.join(', ')}`);
+          fs.writeFileSync(options.output, JSON.stringify(estimates, null, 2), 'utf-8');
         }
-        successCount++;
-        
-        // Build relationships if we just finished processing blueprint_tasks
-        buildAndSaveRelationshipsAfterTasks(fileBaseName, taskProductsData, tasksData);
-        
-        // Build service specifications if we just finished processing blueprint_services
-        buildAndSaveServiceSpecsAfterServices(fileBaseName, servicesData);
-        
-        // Wait for keypress if step mode is enabled
-        if (stepMode) {
-          await waitForKeypress();
+        if (options.format !== 'json') {
+          console.log(`✅ Estimates written to ${options.output}`);
         }
-        
-      } catch (error) {
-        console.log(`❌ ${fileName} - Error: ${error}`);
-        errorCount++;
       }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
     }
-    
-    console.log('─'.repeat(80));
-    
-    // Report summary
-    reportSummary({ successCount, errorCount, outputDir }, 'JSON to XLSX');
-    console.log(`📋 Built: available_options.json\n`);
-    
-  } catch (error) {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  }
-}
+  });
 
-/**
- * Transform from Table - Convert specified XLSX files to JSON with progressive learning
- * Processes files in the order provided on command line
- * @param filePaths - Array of XLSX file paths to transform
- * @param stepMode - If true, wait for keypress after each file
- */
-async function transform_from_table(filePaths: string[], stepMode: boolean = false): Promise<void> {
-  try {
-    console.log('\n🎓 Starting Transform with Progressive Learning...\n');
-    
-    // Step 1: Initialize available_options.json
-    console.log('📝 Initializing available_options.json...');
-    initializeAvailableOptions();
-    
-    // Wait for keypress if step mode is enabled (after initialization)
-    if (stepMode) {
-      await waitForKeypress();
+program
+  .command('graph')
+  .description('Export the task / taskProduct graph as Graphviz DOT or Mermaid')
+  .option('--format <format>', `Output format (${GRAPH_FORMATS.join(', ')})`, 'dot')
+  .option('--service <service>', 'Highlight the subgraph used by a service')
+  .option('--output <file>', 'Write to a file instead of stdout')
+  .option('--blueprints <files...>', 'Blueprint files (JSON or XLSX) to read', DEFAULT_BLUEPRINT_FILES)
+  .action(async (options) => {
+    try {
+      if (!GRAPH_FORMATS.includes(options.format)) {
+        throw new Error(`Unknown format '${options.format}' (expected ${GRAPH_FORMATS.join(' or ')})`);
+      }
+      
+      const blueprints = await loadBlueprintSet(options.blueprints);
+      const graph = buildBlueprintGraph(blueprints);
+      const highlight = options.service ? getServiceSubgraph(options.service, blueprints) : undefined;
+      const source = options.format === 'mermaid' ? toMermaid(graph, highlight) : toDot(graph, highlight);
+      
+      if (options.output) {
+        fs.writeFileSync(options.output, source, 'utf-8');
+        console.log(`✅ Graph written to ${options.output}`);
+      } else {
+        process.stdout.write(source);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
     }
-    
-    // Determine output directory from first file
-    const firstFile = filePaths[0];
-    const firstDir = path.dirname(path.resolve(firstFile));
-    const outputDir = path.join(firstDir, 'outputs');
-    
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+  });
+
+program
+  .command('lint')
+  .description('Check the task graph for orphan and unreachable taskProducts and dependency cycles')
+  .option('--blueprints <files...>', 'Blueprint files (JSON or XLSX) to read', DEFAULT_BLUEPRINT_FILES)
+  .action(async (options) => {
+    try {
+      const blueprints = await loadBlueprintSet(options.blueprints);
+      const issues = lintGraph(blueprints);
+      reportGraphLintIssues(issues);
+      if (issues.some(issue => issue.severity === 'error')) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
     }
-    
-    let successCount = 0;
-    let errorCount = 0;
-    
-    // Store data for relationship building
-    let taskProductsData: any[] = [];
-    let tasksData: any[] = [];
-    let servicesData: any[] = [];
-    
-    console.log('─'.repeat(80));
-    
-    for (const filePath of filePaths) {
-      const resolvedPath = path.resolve(filePath);
-      const fileName = path.basename(resolvedPath);
-      const fileBaseName = fileName.replace('.xlsx', '');
+  });
+
+program
+  .command('diff <old> <new>')
+  .description('Compare two versions of a blueprint (JSON or XLSX), matching records by natural key')
+  .option('--blueprint <name>', 'Blueprint type of both files (default: detected from the file names or columns)')
+  .action(async (oldFile: string, newFile: string, options) => {
+    try {
+      const oldRecords = await readBlueprintFile(oldFile);
+      const newRecords = await readBlueprintFile(newFile);
+      const name = options.blueprint ||
+        [newFile, oldFile].map(getBlueprintBaseName).find(baseName => BLUEPRINT_SCHEMAS.some(schema => schema.name === baseName)) ||
+        getBlueprintBaseName(newFile);
+      const schema = detectBlueprintSchema(name, [...oldRecords, ...newRecords]);
+      reportBlueprintDiff(diffBlueprints(oldRecords, newRecords, schema), oldFile, newFile);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sync <workbook> <json>')
+  .description('Merge the edits made in a workbook generated with --sync-metadata back into its JSON file')
+  .option('--sheet <name>', 'Sheet holding the blueprint (default: the JSON file name)')
+  .option('--output <file>', 'Where to write the merged JSON (default: update the JSON file in place)')
+  .option('--dry-run', 'Report what would change without writing')
+  .action(async (workbookFile: string, jsonFile: string, options) => {
+    try {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(path.resolve(workbookFile));
+      const sheetName = options.sheet || getBlueprintBaseName(jsonFile).substring(0, 31);
+      const worksheet = workbook.getWorksheet(sheetName);
+      if (!worksheet) {
+        throw new Error(`Workbook '${workbookFile}' has no sheet '${sheetName}' (use --sheet)`);
+      }
+      const metadata = readSyncMetadata(workbook, sheetName);
+      if (!metadata) {
+        throw new Error(`Sheet '${sheetName}' has no sync metadata (generate the workbook with --input-json ${path.basename(jsonFile)} --sync-metadata)`);
+      }
       
-      // Get learning config for this file
-      const config = LEARNING_CONFIG[fileBaseName] || { learnFields: [], validate: true };
+      const jsonContent = fs.readFileSync(path.resolve(jsonFile), 'utf-8');
+      const jsonData = JSON.parse(jsonContent);
+      // Structured specifications (normalized JSON) are synced as the "a: b" cells of the workbook
+      const sourceRecords: any[] = Array.isArray(jsonData) ? jsonData : [jsonData];
+      const jsonRecords = sourceRecords.map(record => denormalizeSpecifications(record));
+      const normalized = jsonRecords.some((record, index) => record !== sourceRecords[index]);
+      const schema = detectBlueprintSchema(sheetName, jsonRecords);
+      const { headers, rows } = readExcelData(worksheet);
       
-      if (!fs.existsSync(resolvedPath)) {
-        console.log(`⚠️  ${fileName} - Not found, skipping`);
-        continue;
-      }
+      console.log(`🔄 Syncing ${workbookFile} [${sheetName}] → ${jsonFile} (matched by ${schema.keyField})`);
+      const result = syncRecords(jsonRecords, jsonContent, rows, headers, metadata, schema);
+      reportSyncResult(result, jsonFile);
       
+      const hasChanges = result.added.length > 0 || result.removed.length > 0 || result.changed.length > 0;
+      if (hasChanges && !options.dryRun) {
+        const outputPath = path.resolve(options.output || jsonFile);
+        const records = normalized ? result.records.map(record => normalizeSpecifications(record, schema.name)) : result.records;
+        const merged = Array.isArray(jsonData) || records.length !== 1 ? records : records[0];
+        fs.writeFileSync(outputPath, JSON.stringify(merged, null, 2), 'utf-8');
+        console.log(`📝 Wrote ${path.relative(process.cwd(), outputPath)}`);
+      }
+      if (result.conflicts.length > 0) {
+        console.log('⚠️  Conflicting records kept their JSON version; resolve them and regenerate the workbook');
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('options-diff <old> <new>')
+  .description('Compare two learned options snapshots (available_options.json): vocabularies, relationships, service specifications')
+  .action((oldFile: string, newFile: string) => {
+    try {
+      const diff = diffOptions(readOptionsSnapshot(oldFile), readOptionsSnapshot(newFile));
+      reportOptionsDiff(diff, oldFile, newFile);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+const query = program
+  .command('query')
+  .description('Answer catalog questions from the learned options (services, producers, responsibilities)');
+
+/**
+ * Add a query subcommand reading the options store and printing the result
+ */
+function addQuery(name: string, description: string, run: (options: Record<string, any>, value: string) => QueryResult): void {
+  query
+    .command(name)
+    .description(description)
+    .option('--format <format>', `Output format (${QUERY_FORMATS.join(', ')})`, 'table')
+    .option('--options-file <file>', 'Learned options store (default: available_options.json next to the tool)')
+    .action((value: string, options) => {
       try {
-        const outputFileName = fileName.replace('.xlsx', '.json');
-        const outputPath = path.join(outputDir, outputFileName);
-        
-        // Read XLSX file
-        const ExcelJS = require('exceljs');
-        const workbook = new ExcelJS.Workbook();
-        await workbook.xlsx.readFile(resolvedPath);
-        
-        const worksheet = workbook.worksheets[0];
-        if (!worksheet) {
-          console.log(`⚠️  ${fileName} - No worksheet found, skipping`);
-          errorCount++;
-          continue;
+        if (!QUERY_FORMATS.includes(options.format)) {
+          throw new Error(`Unknown format '${options.format}' (expected ${QUERY_FORMATS.join(' or ')})`);
         }
-        
-        const { rows } = readExcelData(worksheet);
-        
-        // Store data for relationship building
-        if (fileBaseName === 'blueprint_task_products') {
-          taskProductsData = rows;
-        } else if (fileBaseName === 'blueprint_tasks') {
-          tasksData = rows;
-        } else if (fileBaseName === 'blueprint_services') {
-          servicesData = rows;
-        }
-        
-        // Validate if required
-        if (config.validate) {
-          const fieldOptions = loadFieldOptions();
-          // Add tasksData to fieldOptions for enhanced validation
-          if (tasksData.length > 0) {
-            (fieldOptions as any)['_tasksData'] = tasksData;
-          }
-          const validationErrors = validateData(rows, fieldOptions);
-          
-          if (validationErrors.length > 0) {
-            reportValidationErrors(fileName, validationErrors, 'XLSX');
-            errorCount++;
-            continue;
-          }
-        }
-        
-        // Learn from this file
-        for (const fieldName of config.learnFields) {
-          const values = extractUniqueValues(rows, fieldName);
-          if (values.length > 0) {
-            updateAvailableOptions(fieldName, values);
-          }
-        }
-        
-        // Write JSON output
-        fs.writeFileSync(outputPath, JSON.stringify(rows, null, 2), 'utf-8');
-        
-        const inputSize = fs.statSync(resolvedPath).size;
-        const outputSize = fs.statSync(outputPath).size;
-        
-        console.log(`✅ ${fileName} (${formatSize(inputSize)}) → ${outputFileName} (${formatSize(outputSize)})`);
-        if (config.learnFields.length > 0) {
-          console.log(`   📚 Learned: ${config.learnFields.join(', ')}`);
-        }
-        successCount++;
-        
-        // Build relationships if we just finished processing blueprint_tasks
-        buildAndSaveRelationshipsAfterTasks(fileBaseName, taskProductsData, tasksData);
-        
-        // Build service specifications if we just finished processing blueprint_services
-        buildAndSaveServiceSpecsAfterServices(fileBaseName, servicesData);
-        
-        // Wait for keypress if step mode is enabled
-        if (stepMode) {
-          await waitForKeypress();
-        }
-        
+        const store = readOptionsSnapshot(options.optionsFile || DEFAULT_OPTIONS_STORE.filePath);
+        reportQueryResult(run(store, value), options.format);
       } catch (error) {
-        console.log(`❌ ${fileName} - Error: ${error}`);
-        errorCount++;
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
       }
-    }
-    
-    console.log('─'.repeat(80));
-    
-    // Report summary
-    reportSummary({ successCount, errorCount, outputDir }, 'XLSX to JSON');
-    console.log(`📋 Built: available_options.json\n`);
-    
-  } catch (error) {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  }
+    });
 }
 
-// Configure CLI
-program
-  .name('transform')
-  .description('CLI tool to transform and process JSON and XLSX files')
-  .version('1.0.0');
+addQuery('services-using <name>', 'Services whose specification uses a taskProduct, task, enhancement or responsibility', queryServicesUsing);
+addQuery('producers <taskProduct>', 'Tasks that can produce a taskProduct, with their responsibilities', queryProducers);
+addQuery('responsibilities <task>', 'Responsibilities a task allows', queryResponsibilities);
+addQuery('service <service>', 'Full specification of a service', queryService);
 
 program
-  .option('--input-json <files...>', 'JSON files to convert to XLSX (space-separated)')
-  .option('--input-table <files...>', 'XLSX files to convert to JSON (space-separated)')
-  .option('--step', 'Wait for keypress after processing each file')
-  .action(async (options) => {
-    const stepMode = options.step || false;
-    
-    if (options.inputJson) {
-      await transform_from_json(options.inputJson, stepMode);
-    } else if (options.inputTable) {
-      await transform_from_table(options.inputTable, stepMode);
-    } else {
-      console.error('Error: You must specify either --input-json or --input-table');
-      program.help();
+  .command('serve')
+  .description('Start a local HTTP server to validate and convert blueprints and read the learned options')
+  .option('--port <n>', 'Port to listen on', String(DEFAULT_PORT))
+  .option('--host <host>', 'Interface to listen on', '127.0.0.1')
+  .option('--options-file <file>', 'Learned options store (default: available_options.json next to the tool)')
+  .option('--blueprints <files...>', 'Blueprint files (JSON or XLSX) whose blueprint_tasks services are validated against (default: those of input_jsons/ that exist)')
+  .action((options) => {
+    const port = parseInt(options.port, 10);
+    if (isNaN(port) || port < 0 || port > 65535) {
+      console.error(`Error: --port must be a port number (got '${options.port}')`);
+      process.exit(1);
     }
+    
+    const server = createServer({
+      optionsStore: {
+        filePath: options.optionsFile ? path.resolve(options.optionsFile) : DEFAULT_OPTIONS_STORE.filePath,
+        learn: 'off'
+      },
+      blueprints: options.blueprints || DEFAULT_BLUEPRINT_FILES.filter(file => fs.existsSync(file))
+    });
+    server.on('error', error => {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    });
+    server.listen(port, options.host, () => {
+      const address = server.address() as { port: number };
+      console.log(`🌐 Listening on http://${options.host}:${address.port} (Ctrl+C to stop)`);
+    });
   });
 
 // Only run CLI if this is the main module
@@ -437,6 +500,18 @@ if (require.main === module) {
 }
 
 // Export functions for testing
-export { flattenObject, transform_from_json, transform_from_table };
+export { flattenObject, transform_from_json, transform_from_table, transform_from_csv };
 // Re-export from transforms for backward compatibility
 export { unflattenObject } from './transforms';
+// Library API: structured results and progress events instead of console output
+export { transformJsonFiles, transformTableFiles, transformDelimitedFiles, processBlueprintData, reportTransformEvent } from './pipeline';
+export {
+  TransformOptions,
+  TransformResult,
+  TransformEvent,
+  FileResult,
+  FileStatus,
+  LearnedRelationships,
+  OptionsStore
+} from './types';
+export { ValidationError } from './validation';
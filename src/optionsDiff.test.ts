@@ -0,0 +1,66 @@
+import { diffOptions, isEmptyOptionsDiff } from './optionsDiff';
+
+const oldOptions = {
+  taskProduct: ['Floorplan', 'Panos'],
+  task_responsibilities: { 'Panos-Blurring': ['IM-operators', 'auto'], 'Floorplan-building': ['client'] },
+  taskProduct_enhancements: { Panos: ['Photo-enhancement', 'Blur'] },
+  service_specifications: {
+    'Pano Blurring': { taskProduct: 'Panos', enhancement: 'Blur' },
+    'Floor Plan': { taskProduct: 'Floorplan', enhancement: null }
+  }
+};
+
+describe('Options diff', () => {
+  test('reports nothing for identical snapshots', () => {
+    expect(isEmptyOptionsDiff(diffOptions(oldOptions, JSON.parse(JSON.stringify(oldOptions))))).toBe(true);
+  });
+
+  test('reports added and removed vocabulary entries', () => {
+    const diff = diffOptions(oldOptions, { ...oldOptions, taskProduct: ['Panos', 'Elevation'], Service: ['Pano Blurring'] });
+
+    expect(diff.vocabularies).toEqual([
+      { name: 'taskProduct', added: ['Elevation'], removed: ['Floorplan'] },
+      { name: 'Service', added: ['Pano Blurring'], removed: [] }
+    ]);
+  });
+
+  test('reports relationship keys and values, including reordered enhancement orders', () => {
+    const diff = diffOptions(oldOptions, {
+      ...oldOptions,
+      task_responsibilities: { 'Panos-Blurring': ['IM-operators', 'client'], 'Elevation-building': ['auto'] },
+      taskProduct_enhancements: { Panos: ['Blur', 'Photo-enhancement'] }
+    });
+
+    expect(diff.relationships).toEqual([
+      {
+        name: 'task_responsibilities',
+        addedKeys: { 'Elevation-building': ['auto'] },
+        removedKeys: ['Floorplan-building'],
+        changed: [{ key: 'Panos-Blurring', added: ['client'], removed: ['auto'], reordered: false }]
+      },
+      {
+        name: 'taskProduct_enhancements',
+        addedKeys: {},
+        removedKeys: [],
+        changed: [{ key: 'Panos', added: [], removed: [], reordered: true }]
+      }
+    ]);
+  });
+
+  test('reports service specification changes field by field', () => {
+    const diff = diffOptions(oldOptions, {
+      ...oldOptions,
+      service_specifications: {
+        'Pano Blurring': { taskProduct: 'Panos', enhancement: 'Staging' },
+        'Pano Staging': { taskProduct: 'Panos', enhancement: 'Staging' }
+      }
+    });
+
+    expect(diff.recordMaps).toEqual([{
+      name: 'service_specifications',
+      added: ['Pano Staging'],
+      removed: ['Floor Plan'],
+      changed: [{ key: 'Pano Blurring', field: 'enhancement', from: 'Blur', to: 'Staging' }]
+    }]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Semantic diff of two learned options snapshots (available_options.json)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { OptionsDiff, VocabularyDiff, RelationshipDiff, RecordMapDiff } from './types';
+
+/**
+ * Read an options snapshot
+ * @param filePath - Path to an available_options.json snapshot
+ * @returns Parsed options
+ * @throws Error if the file is missing or is not a JSON object
+ */
+export function readOptionsSnapshot(filePath: string): Record<string, any> {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`File '${filePath}' does not exist`);
+  }
+
+  const options = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error(`File '${filePath}' is not an options snapshot (expected a JSON object)`);
+  }
+  return options;
+}
+
+/**
+ * Values of a list that are missing from another list
+ */
+function difference(values: any[], other: any[]): string[] {
+  const otherSet = new Set(other.map(String));
+  return values.map(String).filter(value => !otherSet.has(value));
+}
+
+/**
+ * Whether an entry is a relationship map (key → list of values)
+ */
+function isRelationshipMap(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(entry => Array.isArray(entry));
+}
+
+/**
+ * Whether an entry is a map of records (key → object of fields)
+ */
+function isRecordMap(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(entry => !!entry && typeof entry === 'object' && !Array.isArray(entry));
+}
+
+/**
+ * Diff two versions of a vocabulary
+ */
+function diffVocabulary(name: string, oldValues: any[], newValues: any[]): VocabularyDiff {
+  return { name, added: difference(newValues, oldValues), removed: difference(oldValues, newValues) };
+}
+
+/**
+ * Diff two versions of a relationship map
+ */
+function diffRelationship(
+  name: string,
+  oldMap: Record<string, string[]>,
+  newMap: Record<string, string[]>
+): RelationshipDiff {
+  const diff: RelationshipDiff = { name, addedKeys: {}, removedKeys: [], changed: [] };
+
+  Object.keys(newMap).forEach(key => {
+    if (!(key in oldMap)) {
+      diff.addedKeys[key] = newMap[key].map(String);
+      return;
+    }
+    const added = difference(newMap[key], oldMap[key]);
+    const removed = difference(oldMap[key], newMap[key]);
+    const reordered = added.length === 0 && removed.length === 0 &&
+      oldMap[key].map(String).join('\n') !== newMap[key].map(String).join('\n');
+    if (added.length > 0 || removed.length > 0 || reordered) {
+      diff.changed.push({ key, added, removed, reordered });
+    }
+  });
+  diff.removedKeys = Object.keys(oldMap).filter(key => !(key in newMap));
+
+  return diff;
+}
+
+/**
+ * Diff two versions of a map of records, field by field
+ */
+function diffRecordMap(
+  name: string,
+  oldMap: Record<string, Record<string, any>>,
+  newMap: Record<string, Record<string, any>>
+): RecordMapDiff {
+  const diff: RecordMapDiff = {
+    name,
+    added: Object.keys(newMap).filter(key => !(key in oldMap)),
+    removed: Object.keys(oldMap).filter(key => !(key in newMap)),
+    changed: []
+  };
+
+  Object.keys(newMap).filter(key => key in oldMap).forEach(key => {
+    const fields = [...new Set([...Object.keys(oldMap[key]), ...Object.keys(newMap[key])])];
+    fields.forEach(field => {
+      const from = oldMap[key][field] ?? null;
+      const to = newMap[key][field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        diff.changed.push({ key, field, from, to });
+      }
+    });
+  });
+
+  return diff;
+}
+
+/**
+ * Compare two learned options snapshots
+ * Lists are compared as vocabularies, key → list maps as relationship maps and
+ * key → object maps (service_specifications) field by field
+ * @param oldOptions - Older snapshot
+ * @param newOptions - Newer snapshot
+ * @returns Changes per entry (entries without changes are omitted)
+ */
+export function diffOptions(oldOptions: Record<string, any>, newOptions: Record<string, any>): OptionsDiff {
+  const diff: OptionsDiff = { vocabularies: [], relationships: [], recordMaps: [] };
+  const names = [...new Set([...Object.keys(oldOptions), ...Object.keys(newOptions)])];
+
+  names.forEach(name => {
+    const oldValue = oldOptions[name];
+    const newValue = newOptions[name];
+    const sample = newValue ?? oldValue;
+
+    if (Array.isArray(sample)) {
+      const vocabulary = diffVocabulary(name, oldValue || [], newValue || []);
+      if (vocabulary.added.length > 0 || vocabulary.removed.length > 0) {
+        diff.vocabularies.push(vocabulary);
+      }
+    } else if (isRelationshipMap(sample)) {
+      const relationship = diffRelationship(name, oldValue || {}, newValue || {});
+      if (Object.keys(relationship.addedKeys).length > 0 || relationship.removedKeys.length > 0 ||
+          relationship.changed.length > 0) {
+        diff.relationships.push(relationship);
+      }
+    } else if (isRecordMap(sample)) {
+      const recordMap = diffRecordMap(name, oldValue || {}, newValue || {});
+      if (recordMap.added.length > 0 || recordMap.removed.length > 0 || recordMap.changed.length > 0) {
+        diff.recordMaps.push(recordMap);
+      }
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Check whether a diff has no changes
+ * @param diff - Result of diffOptions
+ * @returns True if both snapshots hold the same options
+ */
+export function isEmptyOptionsDiff(diff: OptionsDiff): boolean {
+  return diff.vocabularies.length === 0 && diff.relationships.length === 0 && diff.recordMaps.length === 0;
+}
+
+/**
+ * Format a field value of a record for display
+ */
+function formatFieldValue(value: any): string {
+  return value === null ? '(empty)' : JSON.stringify(value);
+}
+
+/**
+ * Report an options diff to console
+ * @param diff - Result of diffOptions
+ * @param oldLabel - Name of the older snapshot
+ * @param newLabel - Name of the newer snapshot
+ */
+export function reportOptionsDiff(diff: OptionsDiff, oldLabel: string, newLabel: string): void {
+  console.log(`📋 Options diff: ${oldLabel} → ${newLabel}`);
+
+  if (isEmptyOptionsDiff(diff)) {
+    console.log('✅ No differences');
+    return;
+  }
+
+  if (diff.vocabularies.length > 0) {
+    console.log('─'.repeat(80));
+    console.log('📚 Vocabularies');
+    diff.vocabularies.forEach(vocabulary => {
+      console.log(`   ${vocabulary.name}: +${vocabulary.added.length} -${vocabulary.removed.length}`);
+      vocabulary.added.forEach(value => console.log(`      + ${value}`));
+      vocabulary.removed.forEach(value => console.log(`      - ${value}`));
+    });
+  }
+
+  if (diff.relationships.length > 0) {
+    console.log('─'.repeat(80));
+    console.log('🔗 Relationships');
+    diff.relationships.forEach(relationship => {
+      console.log(`   ${relationship.name}`);
+      Object.keys(relationship.addedKeys).forEach(key => {
+        console.log(`      + ${key}: ${relationship.addedKeys[key].join(', ') || '(none)'}`);
+      });
+      relationship.removedKeys.forEach(key => console.log(`      - ${key}`));
+      relationship.changed.forEach(change => {
+        const parts = [
+          ...change.added.map(value => `+${value}`),
+          ...change.removed.map(value => `-${value}`),
+          ...(change.reordered ? ['(reordered)'] : [])
+        ];
+        console.log(`      ~ ${change.key}: ${parts.join(' ')}`);
+      });
+    });
+  }
+
+  diff.recordMaps.forEach(recordMap => {
+    console.log('─'.repeat(80));
+    console.log(`📋 ${recordMap.name}`);
+    recordMap.added.forEach(key => console.log(`   + ${key}`));
+    recordMap.removed.forEach(key => console.log(`   - ${key}`));
+
+    const changedKeys = [...new Set(recordMap.changed.map(change => change.key))];
+    changedKeys.forEach(key => {
+      console.log(`   ~ ${key}`);
+      recordMap.changed.filter(change => change.key === key).forEach(change => {
+        console.log(`      ${change.field}: ${formatFieldValue(change.from)} → ${formatFieldValue(change.to)}`);
+      });
+    });
+  });
+}
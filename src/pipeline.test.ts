@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { processBlueprintData, reportTransformEvent, transformJsonFiles, transformTableFiles } from './pipeline';
+import { readExcelData } from './utils';
+import { OptionsStore, TransformEvent } from './types';
+
+const taskProducts = [
+  { taskProduct: 'Panos', 'enhancement-order': ['Blur'] },
+  { taskProduct: 'geometry-scaffold', 'enhancement-order': [] },
+  { taskProduct: 'Floorplan', 'enhancement-order': [] }
+];
+const tasks = [
+  { task: 'Data-Acquisition', inputs: [], outputs: ['Panos'], enhancement: '', responsibility_options: ['client'] },
+  { task: 'Pano-Generation', inputs: ['Panos'], outputs: ['geometry-scaffold'], enhancement: '', responsibility_options: ['auto'] },
+  { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto', 'IM-operators'] },
+  { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], enhancement: '', responsibility_options: ['IM-operators'] }
+];
+const services = [
+  { Service: 'Pano Blurring', taskProduct: 'Panos', enhancement: 'Blur' },
+  { Service: 'Floorplan', taskProduct: 'Floorplann', enhancement: '' }
+];
+
+describe('Library API', () => {
+  let tempDir: string;
+  let optionsStore: OptionsStore;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+    optionsStore = { filePath: path.join(tempDir, 'options.json'), learn: 'replace' };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns per-blueprint results, learned options and relationships without printing', async () => {
+    const logSpy = jest.spyOn(console, 'log');
+
+    const result = await processBlueprintData(
+      { blueprint_services: services, blueprint_tasks: tasks, blueprint_task_products: taskProducts },
+      { optionsStore }
+    );
+
+    expect(logSpy).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+    expect(result.files.map(file => [file.blueprint, file.status]))
+      .toEqual([['blueprint_task_products', 'converted'], ['blueprint_tasks', 'converted'], ['blueprint_services', 'invalid']]);
+    expect(result.files[2].errors).toEqual([
+      expect.objectContaining({ row: 3, field: 'taskProduct', value: 'Floorplann' })
+    ]);
+    expect(result).toMatchObject({ successCount: 2, errorCount: 1 });
+    expect(result.lintIssues.filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(result.learnedOptions.task).toEqual(['Data-Acquisition', 'Pano-Generation', 'Panos-Blurring', 'floorplan-building']);
+    expect(result.relationships!.task_responsibilities['Panos-Blurring']).toEqual(['auto', 'IM-operators']);
+    expect(result.serviceSpecifications).toBeUndefined();
+    expect(result.outputDir).toBeUndefined();
+  });
+
+  test('emits progress events in order and applies fixes in memory', async () => {
+    const events: TransformEvent[] = [];
+    const data = { blueprint_task_products: taskProducts, blueprint_tasks: tasks, blueprint_services: services.map(s => ({ ...s })) };
+
+    const result = await processBlueprintData(data, { optionsStore, fix: true, onEvent: event => { events.push(event); } });
+
+    expect(events.map(event => event.type)).toEqual([
+      'start', 'init', 'file', 'file', 'relationships', 'file', 'serviceSpecifications', 'lint', 'done'
+    ]);
+    expect(result.files[2]).toMatchObject({ status: 'converted', fixes: [expect.objectContaining({ replacement: 'Floorplan' })] });
+    expect(data.blueprint_services[1].taskProduct).toBe('Floorplan');
+    expect(Object.keys(result.serviceSpecifications!)).toEqual(['Pano Blurring', 'Floorplan']);
+  });
+
+  test('prints one separator before the summary of a run', async () => {
+    const events: TransformEvent[] = [];
+    await processBlueprintData({ blueprint_task_products: taskProducts }, { optionsStore, onEvent: event => { events.push(event); } });
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    reportTransformEvent(events.find(event => event.type === 'done')!);
+
+    const lines = logSpy.mock.calls.map(call => String(call[0]));
+    logSpy.mockRestore();
+    expect(lines.filter(line => line === '─'.repeat(80))).toHaveLength(1);
+    expect(lines[1]).toBe('\n📈 Summary:');
+  });
+
+  test('reports output paths of converted files', async () => {
+    const files = ['blueprint_task_products', 'blueprint_tasks'].map(name => path.join(tempDir, `${name}.json`));
+    fs.writeFileSync(files[0], JSON.stringify(taskProducts));
+    fs.writeFileSync(files[1], JSON.stringify(tasks));
+
+    const result = await transformJsonFiles([...files, path.join(tempDir, 'missing.json')], { optionsStore });
+
+    const outputDir = path.join(tempDir, 'outputs');
+    expect(result.outputDir).toBe(outputDir);
+    expect(result.files.map(file => [file.status, file.outputPath])).toEqual([
+      ['converted', path.join(outputDir, 'blueprint_task_products.xlsx')],
+      ['converted', path.join(outputDir, 'blueprint_tasks.xlsx')],
+      ['missing', undefined]
+    ]);
+    expect(fs.existsSync(path.join(outputDir, 'blueprint_tasks.xlsx'))).toBe(true);
+  });
+
+  test('reads normalized JSON specifications and writes them back on request', async () => {
+    const normalizedServices = [{
+      Service: 'Floorplan',
+      taskProduct: 'Floorplan',
+      responsibilities: [{ task: 'floorplan-building', responsibility: 'IM-operators' }, { task: 'Panos-Blurring', responsibility: 'auto' }],
+      transformations: [{ taskProduct: 'geometry-scaffold', task: 'Pano-Generation' }],
+      enhancementMedia: []
+    }];
+    const files = ['blueprint_task_products', 'blueprint_tasks', 'blueprint_services'].map(name => path.join(tempDir, `${name}.json`));
+    [taskProducts, tasks, normalizedServices].forEach((records, index) => fs.writeFileSync(files[index], JSON.stringify(records)));
+
+    const toXlsx = await transformJsonFiles(files, { optionsStore });
+    expect(toXlsx.files[2]).toMatchObject({ status: 'converted', errors: [] });
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(toXlsx.files[2].outputPath!);
+    expect(readExcelData(workbook.worksheets[0]).rows[0]).toMatchObject({
+      'responsibility specification (Task:Responsibility)': 'floorplan-building: IM-operators; Panos-Blurring: auto',
+      'transformation specification (taskProduct:task)': 'geometry-scaffold: Pano-Generation',
+      'enhancement medium specification (enhancement:taskProduct)': ''
+    });
+
+    const xlsxFiles = toXlsx.files.map(file => file.outputPath!);
+    const toJson = await transformTableFiles(xlsxFiles, { optionsStore, normalizedJson: true });
+    const written = JSON.parse(fs.readFileSync(toJson.files[2].outputPath!, 'utf-8'));
+    expect(written).toEqual(normalizedServices);
+  });
+
+  test('fails blueprints with duplicate keys and warns about near duplicates', async () => {
+    const result = await processBlueprintData({
+      blueprint_task_products: [...taskProducts, { taskProduct: 'Panos', 'enhancement-order': [] }],
+      blueprint_tasks: [...tasks, { ...tasks[3], task: 'Floorplan-building' }]
+    }, { optionsStore });
+
+    expect(result.files[0]).toMatchObject({ status: 'invalid', warnings: [] });
+    expect(result.files[0].errors.map(error => [error.row, error.value])).toEqual([
+      [2, '"Panos" is defined 2 times (differing fields: enhancement-order)'],
+      [5, '"Panos" is defined 2 times (differing fields: enhancement-order)']
+    ]);
+    expect(result.files[1]).toMatchObject({
+      status: 'converted',
+      warnings: [expect.objectContaining({ row: 6, field: 'task (near duplicate)', validOptions: ['floorplan-building'] })]
+    });
+  });
+
+  test('reports duplicate keys of blueprints learned without validation', async () => {
+    const files = ['blueprint_task_products', 'blueprint_tasks'].map(name => path.join(tempDir, `${name}.json`));
+    fs.writeFileSync(files[0], JSON.stringify([...taskProducts, { taskProduct: 'Panos', 'enhancement-order': [] }]));
+    fs.writeFileSync(files[1], JSON.stringify(tasks));
+
+    const result = await transformJsonFiles(files, { optionsStore, reportFormat: 'json' });
+
+    expect(result.files[0]).toMatchObject({ status: 'invalid' });
+    const report = JSON.parse(fs.readFileSync(result.reportPath!, 'utf-8'));
+    expect(report.summary).toEqual({ files: 2, failedFiles: 1, errors: 2 });
+    expect(report.errors.map((error: any) => [error.row, error.kind, error.otherRows])).toEqual([[1, 'duplicate', [4]], [4, 'duplicate', [1]]]);
+  });
+
+  test('throws instead of exiting when a run cannot start', async () => {
+    await expect(processBlueprintData({ blueprint_services: services }, { optionsStore }))
+      .rejects.toThrow('Upstream blueprint(s) missing from the run');
+  });
+});
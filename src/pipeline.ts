@@ -0,0 +1,875 @@
+/**
+ * Progressive-learning pipeline as a library: converts and validates blueprints and returns structured results
+ * Nothing is printed and nothing exits the process: progress goes out as events (TransformOptions.onEvent)
+ * and fatal errors are thrown. reportTransformEvent prints the events the way the CLI does.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { flattenObject, normalizeSpecifications, denormalizeSpecifications } from './transforms';
+import { readExcelData, formatSize, writeExcelData, addExcelSheet, reportSummary } from './utils';
+import {
+  loadFieldOptions,
+  validateBlueprint,
+  findNearDuplicateKeys,
+  reportValidationErrors,
+  initializeAvailableOptions,
+  updateAvailableOptions,
+  extractUniqueValues,
+  buildTaskResponsibilities,
+  buildTaskProductProducers,
+  buildTaskProductEnhancements,
+  updateAvailableOptionsRelationships,
+  buildServiceSpecifications,
+  updateAvailableOptionsServiceSpecs,
+  DEFAULT_OPTIONS_STORE,
+  ValidationError
+} from './validation';
+import { assignBlueprint, createBlueprintSet } from './blueprints';
+import { lintGraph, reportGraphLintIssues } from './graphLint';
+import { BLUEPRINT_SCHEMAS, getBlueprintSchemaOrDefault, sortByBlueprintDependencies, findMissingDependencies } from './schema';
+import { addDropdownValidations } from './dropdowns';
+import { writeAnnotatedWorkbook } from './annotate';
+import { writeValidationReport } from './reports';
+import { applyTypoFixes, writeFixedWorkbook, reportTypoFixes, writeFixLog } from './fix';
+import { addSyncMetadata } from './sync';
+import { DELIMITED_FORMATS, getDelimiter, getFormatDelimiter, readDelimitedData, writeDelimitedData } from './csv';
+import {
+  BlueprintSet,
+  FileResult,
+  FileValidationResult,
+  FixLogEntry,
+  LearnedRelationships,
+  OptionsStore,
+  TransformEvent,
+  TransformOptions,
+  TransformResult,
+  TypoFix
+} from './types';
+
+/**
+ * File name of the single multi-sheet blueprint workbook
+ */
+export const BLUEPRINT_WORKBOOK_NAME = 'blueprint.xlsx';
+
+/**
+ * Formats JSON inputs can be converted to (the XLSX-only options are ignored for CSV and TSV)
+ */
+export const OUTPUT_FORMATS = ['xlsx', ...DELIMITED_FORMATS];
+
+/**
+ * One input of a run: a file, a sheet of a workbook or an in-memory blueprint
+ */
+interface PipelineEntry {
+  file: string;
+  blueprint: string;
+  filePath?: string;
+  sheet?: string;
+  outputFileName?: string;
+  records?: any[];
+}
+
+/**
+ * Records read from an input
+ */
+interface LoadedEntry {
+  records: any[];
+  data?: any;
+  content?: string;
+  rowNumbers?: number[];
+  /** Whether the input gave specifications in structured (normalized JSON) form */
+  normalized?: boolean;
+}
+
+/**
+ * How a run reads its inputs and writes its outputs
+ */
+interface PipelineSource {
+  sourceType: 'JSON' | 'XLSX' | 'CSV';
+  /** Read an input; a string is the reason it is skipped */
+  load(entry: PipelineEntry): Promise<LoadedEntry | string>;
+  /** Row of a validateData error or fix as reported for this source */
+  reportedRow(loaded: LoadedEntry, row: number): number;
+  writeFixed?(entry: PipelineEntry, loaded: LoadedEntry, fixes: TypoFix[], outputDir: string): Promise<string>;
+  annotate?(entry: PipelineEntry, errors: ValidationError[], outputDir: string): Promise<string>;
+  write?(entry: PipelineEntry, loaded: LoadedEntry, outputDir: string): Promise<{ outputPath: string; outputSheet?: string }>;
+  /** Write what is only complete after all inputs (the single blueprint workbook) */
+  finish?(blueprints: BlueprintSet, outputDir: string): Promise<{ path: string; sheets: string[] } | undefined>;
+}
+
+/**
+ * Event emitter of a run
+ */
+type Emit = (event: TransformEvent) => Promise<void>;
+
+/**
+ * Create the event emitter of a run (events are dropped without a listener)
+ */
+function createEmitter(options: TransformOptions): Emit {
+  return async event => {
+    if (options.onEvent) {
+      await options.onEvent(event);
+    }
+  };
+}
+
+/**
+ * Sort blueprint inputs so every blueprint is processed after the blueprints it is validated against
+ * @throws Error if an upstream blueprint is missing from the run
+ */
+async function orderBlueprintInputs(entries: PipelineEntry[], store: OptionsStore, emit: Emit): Promise<PipelineEntry[]> {
+  const learnedOptions = store.learn === 'replace' || !fs.existsSync(store.filePath) ? {} : loadFieldOptions(store);
+  const present = entries.filter(entry => !entry.filePath || fs.existsSync(entry.filePath));
+  const missing = findMissingDependencies(present.map(entry => entry.blueprint), learnedOptions);
+  const dependents = Object.keys(missing);
+  if (dependents.length > 0) {
+    const details = dependents.map(name => `${name} needs ${missing[name].join(', ')}`).join('; ');
+    throw new Error(`Upstream blueprint(s) missing from the run, validation would be skipped: ${details}`);
+  }
+
+  const ordered = sortByBlueprintDependencies(entries, entry => entry.blueprint);
+  if (ordered.some((entry, idx) => entry !== entries[idx])) {
+    await emit({ type: 'order', order: ordered.map(entry => entry.blueprint) });
+  }
+  return ordered;
+}
+
+/**
+ * Build the relationship mappings once blueprint_tasks is processed and save them to the store
+ */
+function learnRelationships(blueprints: BlueprintSet, store: OptionsStore): LearnedRelationships {
+  const relationships: LearnedRelationships = {
+    task_responsibilities: buildTaskResponsibilities(blueprints.tasks),
+    taskProduct_producers: buildTaskProductProducers(blueprints.tasks),
+    taskProduct_enhancements: buildTaskProductEnhancements(blueprints.taskProducts)
+  };
+  updateAvailableOptionsRelationships(
+    relationships.task_responsibilities,
+    relationships.taskProduct_producers,
+    relationships.taskProduct_enhancements,
+    store
+  );
+  return relationships;
+}
+
+/**
+ * Add the learned relationship mappings to a blueprint workbook, one sheet each
+ */
+function addRelationshipSheets(workbook: ExcelJS.Workbook, blueprints: BlueprintSet): void {
+  const relationships: { sheetName: string, keyField: string, valueField: string, mapping: Record<string, string[]> }[] = [
+    { sheetName: 'task_responsibilities', keyField: 'task', valueField: 'responsibility_options', mapping: buildTaskResponsibilities(blueprints.tasks) },
+    { sheetName: 'taskProduct_producers', keyField: 'taskProduct', valueField: 'producers', mapping: buildTaskProductProducers(blueprints.tasks) },
+    { sheetName: 'taskProduct_enhancements', keyField: 'taskProduct', valueField: 'enhancements', mapping: buildTaskProductEnhancements(blueprints.taskProducts) }
+  ];
+
+  for (const relationship of relationships) {
+    const rows = Object.keys(relationship.mapping).map(key => ({
+      [relationship.keyField]: key,
+      [relationship.valueField]: relationship.mapping[key]
+    }));
+    if (rows.length > 0) {
+      addExcelSheet(workbook, rows, { sheetName: relationship.sheetName, columnWidth: 40, boldHeaders: true });
+    }
+  }
+}
+
+/**
+ * Whether inputs of a blueprint type are validated
+ * Blueprints learned without validation are still checked for duplicate keys
+ */
+function isValidated(blueprintName: string): boolean {
+  const schema = getBlueprintSchemaOrDefault(blueprintName);
+  return schema.validate || schema.keyField !== '';
+}
+
+/**
+ * Validate, fix, learn from and write one input
+ * @returns Result of the input (never throws: failures become the 'error' status)
+ */
+async function processEntry(
+  entry: PipelineEntry,
+  source: PipelineSource,
+  blueprints: BlueprintSet,
+  store: OptionsStore,
+  options: TransformOptions,
+  outputDir?: string
+): Promise<FileResult> {
+  const file: FileResult = {
+    file: entry.file,
+    blueprint: entry.blueprint,
+    ...(entry.filePath ? { filePath: entry.filePath } : {}),
+    ...(entry.sheet ? { sheet: entry.sheet } : {}),
+    sourceType: source.sourceType,
+    status: 'converted',
+    records: [],
+    errors: [],
+    warnings: [],
+    fixes: [],
+    learned: []
+  };
+  const config = getBlueprintSchemaOrDefault(entry.blueprint);
+
+  if (entry.filePath && !fs.existsSync(entry.filePath)) {
+    return { ...file, status: 'missing' };
+  }
+
+  try {
+    const loaded = await source.load(entry);
+    if (typeof loaded === 'string') {
+      return { ...file, status: 'skipped', message: loaded };
+    }
+    file.records = loaded.records;
+
+    // Keep the records for relationship building and validation of downstream blueprints
+    assignBlueprint(blueprints, entry.blueprint, loaded.records);
+
+    // Number errors (and the other rows of duplicates) as the source does
+    const reported = (error: ValidationError): ValidationError => ({
+      ...error,
+      row: source.reportedRow(loaded, error.row),
+      ...(error.otherRows ? { otherRows: error.otherRows.map(row => source.reportedRow(loaded, row)) } : {})
+    });
+
+    // Keys that only differ by case or separators are reported, but do not fail the input
+    file.warnings = findNearDuplicateKeys(loaded.records, entry.blueprint).map(reported);
+
+    if (isValidated(entry.blueprint)) {
+      const fieldOptions = loadFieldOptions(store);
+      const validate = () => validateBlueprint(loaded.records, fieldOptions, entry.blueprint, blueprints.tasks);
+      let errors = validate();
+
+      // Apply unambiguous typo fixes, then re-validate the patched records
+      if (options.fix && errors.length > 0) {
+        const fixes = applyTypoFixes(loaded.records, errors, options.fixDistance);
+        if (fixes.length > 0) {
+          file.fixes = fixes.map(fix => ({ ...fix, row: source.reportedRow(loaded, fix.row) }));
+          if (outputDir && source.writeFixed) {
+            file.fixedPath = await source.writeFixed(entry, loaded, fixes, outputDir);
+          }
+          errors = validate();
+        }
+      }
+
+      file.errors = errors.map(reported);
+      if (file.errors.length > 0) {
+        // Hand editors back a copy of their workbook with the invalid cells marked
+        if (options.annotateErrors && outputDir && source.annotate) {
+          file.annotatedPath = await source.annotate(entry, file.errors, outputDir);
+        }
+        return { ...file, status: 'invalid' };
+      }
+    }
+
+    // Learn from this input
+    for (const fieldName of config.learnFields) {
+      const values = extractUniqueValues(loaded.records, fieldName);
+      if (values.length > 0) {
+        updateAvailableOptions(fieldName, values, store);
+      }
+    }
+    file.learned = store.learn === 'off' ? [] : config.learnFields;
+
+    if (outputDir && source.write) {
+      Object.assign(file, await source.write(entry, loaded, outputDir));
+    }
+    return file;
+  } catch (error) {
+    return { ...file, status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run the pipeline over ordered inputs
+ * @param entries - Inputs (ordered by blueprint dependencies here)
+ * @param source - How inputs are read and outputs written
+ * @param options - Transform options
+ * @param emit - Event emitter of the run
+ * @param outputDir - Where outputs go (none: nothing is written)
+ * @returns Result of the run
+ */
+async function runPipeline(
+  entries: PipelineEntry[],
+  source: PipelineSource,
+  options: TransformOptions,
+  emit: Emit,
+  outputDir?: string
+): Promise<TransformResult> {
+  const store = options.optionsStore || DEFAULT_OPTIONS_STORE;
+
+  // Process upstream blueprints first, whatever the given order
+  const ordered = await orderBlueprintInputs(entries, store, emit);
+
+  initializeAvailableOptions(store);
+  await emit({ type: 'init', optionsStore: store });
+
+  if (outputDir && !fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const result: TransformResult = {
+    files: [],
+    successCount: 0,
+    errorCount: 0,
+    ...(outputDir ? { outputDir } : {}),
+    optionsStore: store,
+    learnedOptions: {},
+    lintIssues: []
+  };
+  const blueprints = createBlueprintSet();
+
+  for (const entry of ordered) {
+    const file = await processEntry(entry, source, blueprints, store, options, outputDir);
+    result.files.push(file);
+    if (file.status === 'converted') {
+      result.successCount++;
+    } else if (file.status !== 'missing') {
+      result.errorCount++;
+    }
+    await emit({ type: 'file', file });
+
+    if (file.status !== 'converted') continue;
+    const setField = getBlueprintSchemaOrDefault(entry.blueprint).setField;
+
+    // Build relationships once both blueprint_task_products and blueprint_tasks are known
+    if (setField === 'tasks' && blueprints.taskProducts.length > 0 && blueprints.tasks.length > 0) {
+      result.relationships = learnRelationships(blueprints, store);
+      await emit({ type: 'relationships', relationships: result.relationships });
+    }
+
+    // Build service specifications once blueprint_services is known
+    if (setField === 'services' && blueprints.services.length > 0) {
+      result.serviceSpecifications = buildServiceSpecifications(blueprints.services);
+      updateAvailableOptionsServiceSpecs(result.serviceSpecifications, store);
+      await emit({ type: 'serviceSpecifications', serviceSpecifications: result.serviceSpecifications });
+    }
+  }
+
+  if (outputDir && source.finish) {
+    const workbook = await source.finish(blueprints, outputDir);
+    if (workbook) {
+      result.workbookPath = workbook.path;
+      await emit({ type: 'workbook', ...workbook });
+    }
+  }
+
+  // Lint the task graph built from all processed inputs (problems are reported, not fatal)
+  if (blueprints.tasks.length > 0) {
+    result.lintIssues = lintGraph(blueprints);
+    await emit({ type: 'lint', issues: result.lintIssues });
+  }
+
+  const fixLog: FixLogEntry[] = result.files.flatMap(file => file.fixes.map(fix => ({
+    file: path.relative(process.cwd(), file.filePath || file.file),
+    ...(file.sheet ? { sheet: file.sheet } : {}),
+    ...fix,
+    // The log gives record numbers for JSON, like the reports
+    row: file.sourceType === 'JSON' ? fix.row - 1 : fix.row
+  })));
+  if (outputDir && fixLog.length > 0) {
+    result.fixLogPath = writeFixLog(fixLog, outputDir);
+    await emit({ type: 'fixLog', path: result.fixLogPath, count: fixLog.length });
+  }
+
+  if (outputDir && options.reportFormat) {
+    const validationResults: FileValidationResult[] = result.files
+      .filter(file => (file.status === 'converted' || file.status === 'invalid') && isValidated(file.blueprint))
+      .map(file => ({
+        file: path.relative(process.cwd(), file.filePath || file.file),
+        filePath: file.filePath || file.file,
+        ...(file.sheet ? { sheet: file.sheet } : {}),
+        sourceType: file.sourceType,
+        errors: file.errors
+      }));
+    result.reportPath = writeValidationReport(validationResults, options.reportFormat, outputDir);
+    await emit({ type: 'report', path: result.reportPath, format: options.reportFormat });
+  }
+
+  result.learnedOptions = fs.existsSync(store.filePath) ? loadFieldOptions(store) : {};
+  await emit({ type: 'done', result });
+  return result;
+}
+
+/**
+ * Get the output directory of a run: outputs/ next to the first input
+ */
+function getOutputDir(filePaths: string[]): string {
+  return path.join(path.dirname(path.resolve(filePaths[0])), 'outputs');
+}
+
+/**
+ * Read JSON records whose specifications may be in structured (normalized JSON) form
+ * Structured specifications become "a: b" columns, which is what validation, learning and XLSX use
+ */
+function readSpecificationColumns(records: any[], blueprint: string): LoadedEntry {
+  const columns = records.map(record => denormalizeSpecifications(record, blueprint));
+  return { records: columns, normalized: columns.some((record, index) => record !== records[index]) };
+}
+
+/**
+ * Inputs read from JSON files, written as XLSX (one workbook per file or a single blueprint.xlsx), CSV or TSV
+ */
+function createJsonFileSource(options: TransformOptions): PipelineSource {
+  const store = options.optionsStore || DEFAULT_OPTIONS_STORE;
+  const outputFormat = options.outputFormat || 'xlsx';
+
+  // Shared workbook when writing a single blueprint.xlsx
+  const blueprintWorkbook = options.singleWorkbook && outputFormat === 'xlsx' ? new ExcelJS.Workbook() : null;
+  // Sources of the sheets in the shared workbook, recorded for `transform sync` once it is complete
+  const syncSheets: { sheetName: string; records: any[]; keyField: string; content: string }[] = [];
+
+  return {
+    sourceType: 'JSON',
+
+    async load(entry) {
+      const content = fs.readFileSync(entry.filePath!, 'utf-8');
+      let data;
+      try {
+        data = JSON.parse(content);
+      } catch (parseError) {
+        return 'Invalid JSON';
+      }
+      if (!data || (Array.isArray(data) && data.length === 0)) {
+        return 'Empty JSON';
+      }
+      if (typeof data !== 'object') {
+        return 'Invalid JSON structure';
+      }
+      return { ...readSpecificationColumns(Array.isArray(data) ? data : [data], entry.blueprint), data, content };
+    },
+
+    reportedRow: (loaded, row) => row,
+
+    async writeFixed(entry, loaded, fixes, outputDir) {
+      const fixedPath = path.join(outputDir, `${entry.blueprint}.fixed.json`);
+      // Fixed records are written back in the form they were read in
+      const records = loaded.normalized
+        ? loaded.records.map(record => normalizeSpecifications(record, entry.blueprint))
+        : loaded.records;
+      fs.writeFileSync(fixedPath, JSON.stringify(Array.isArray(loaded.data) ? records : records[0], null, 2), 'utf-8');
+      return fixedPath;
+    },
+
+    async write(entry, loaded, outputDir) {
+      const outputPath = path.join(outputDir, entry.outputFileName!);
+      if (outputFormat !== 'xlsx') {
+        fs.writeFileSync(outputPath, writeDelimitedData(loaded.records, getFormatDelimiter(outputFormat)), 'utf-8');
+        return { outputPath };
+      }
+
+      const config = getBlueprintSchemaOrDefault(entry.blueprint);
+      const flattenedData = loaded.records.map(item => flattenObject(item));
+      const sheetName = entry.blueprint.substring(0, 31);
+
+      if (blueprintWorkbook) {
+        // Add a sheet to the shared blueprint workbook (written after all files)
+        addExcelSheet(blueprintWorkbook, flattenedData, { sheetName, columnWidth: 40, boldHeaders: true });
+        if (options.syncMetadata && config.keyField) {
+          syncSheets.push({ sheetName, records: loaded.records, keyField: config.keyField, content: loaded.content! });
+        }
+        return { outputPath: path.join(outputDir, BLUEPRINT_WORKBOOK_NAME), outputSheet: sheetName };
+      }
+
+      const workbook = await writeExcelData(flattenedData, { sheetName, columnWidth: 40, boldHeaders: true });
+
+      // Add dropdowns for vocabulary columns
+      if (options.dropdowns) {
+        addDropdownValidations(workbook, workbook.getWorksheet(sheetName)!, entry.blueprint, loadFieldOptions(store));
+      }
+
+      // Record what the workbook was generated from, for `transform sync`
+      if (options.syncMetadata && config.keyField) {
+        addSyncMetadata(workbook, sheetName, loaded.records, config.keyField, loaded.content!);
+      }
+
+      await workbook.xlsx.writeFile(outputPath);
+      return { outputPath };
+    },
+
+    async finish(blueprints, outputDir) {
+      if (!blueprintWorkbook || blueprintWorkbook.worksheets.length === 0) return undefined;
+
+      if (options.dropdowns) {
+        const fieldOptions = loadFieldOptions(store);
+        blueprintWorkbook.worksheets.forEach(worksheet => {
+          addDropdownValidations(blueprintWorkbook, worksheet, worksheet.name, fieldOptions);
+        });
+      }
+      addRelationshipSheets(blueprintWorkbook, blueprints);
+      syncSheets.forEach(sync => addSyncMetadata(blueprintWorkbook, sync.sheetName, sync.records, sync.keyField, sync.content));
+
+      const workbookPath = path.join(outputDir, BLUEPRINT_WORKBOOK_NAME);
+      await blueprintWorkbook.xlsx.writeFile(workbookPath);
+      const sheets = blueprintWorkbook.worksheets.filter(worksheet => worksheet.state !== 'hidden').map(worksheet => worksheet.name);
+      return { path: workbookPath, sheets };
+    }
+  };
+}
+
+/**
+ * Inputs read from XLSX files or sheets, written as JSON (normalized JSON with options.normalizedJson)
+ */
+function createTableFileSource(options: TransformOptions): PipelineSource {
+  return {
+    sourceType: 'XLSX',
+
+    async load(entry) {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(entry.filePath!);
+
+      const worksheet = entry.sheet ? workbook.getWorksheet(entry.sheet) : workbook.worksheets[0];
+      if (!worksheet) {
+        return 'No worksheet found';
+      }
+      const { rows, rowNumbers } = readExcelData(worksheet);
+      return { records: rows, rowNumbers };
+    },
+
+    // Map record positions to Excel rows (empty rows are skipped when reading)
+    reportedRow: (loaded, row) => loaded.rowNumbers![row - 2] || row,
+
+    async writeFixed(entry, loaded, fixes, outputDir) {
+      const fixedPath = path.join(outputDir, `${entry.blueprint}.fixed.xlsx`);
+      await writeFixedWorkbook(entry.filePath!, entry.sheet, loaded.records, loaded.rowNumbers!, fixes, fixedPath);
+      return fixedPath;
+    },
+
+    async annotate(entry, errors, outputDir) {
+      const annotatedPath = path.join(outputDir, `${entry.blueprint}.errors.xlsx`);
+      await writeAnnotatedWorkbook(entry.filePath!, entry.sheet, errors, annotatedPath);
+      return annotatedPath;
+    },
+
+    async write(entry, loaded, outputDir) {
+      const outputPath = path.join(outputDir, entry.outputFileName!);
+      const records = options.normalizedJson
+        ? loaded.records.map(record => normalizeSpecifications(record, entry.blueprint))
+        : loaded.records;
+      fs.writeFileSync(outputPath, JSON.stringify(records, null, 2), 'utf-8');
+      return { outputPath };
+    }
+  };
+}
+
+/**
+ * Inputs read from CSV or TSV files (by extension), written as JSON (normalized JSON with options.normalizedJson)
+ */
+function createDelimitedFileSource(options: TransformOptions): PipelineSource {
+  return {
+    sourceType: 'CSV',
+
+    async load(entry) {
+      const { rows, rowNumbers } = readDelimitedData(fs.readFileSync(entry.filePath!, 'utf-8'), getDelimiter(entry.filePath!));
+      if (rows.length === 0) {
+        return 'No records found';
+      }
+      return { records: rows, rowNumbers };
+    },
+
+    // Map record positions to the line each record starts on (empty lines are skipped when reading)
+    reportedRow: (loaded, row) => loaded.rowNumbers![row - 2] || row,
+
+    async writeFixed(entry, loaded, fixes, outputDir) {
+      const fixedPath = path.join(outputDir, `${entry.blueprint}.fixed${path.extname(entry.filePath!).toLowerCase()}`);
+      fs.writeFileSync(fixedPath, writeDelimitedData(loaded.records, getDelimiter(entry.filePath!)), 'utf-8');
+      return fixedPath;
+    },
+
+    async write(entry, loaded, outputDir) {
+      const outputPath = path.join(outputDir, entry.outputFileName!);
+      const records = options.normalizedJson
+        ? loaded.records.map(record => normalizeSpecifications(record, entry.blueprint))
+        : loaded.records;
+      fs.writeFileSync(outputPath, JSON.stringify(records, null, 2), 'utf-8');
+      return { outputPath };
+    }
+  };
+}
+
+/**
+ * Expand XLSX inputs into the worksheets to process
+ * In workbook mode every blueprint sheet of a workbook becomes an entry, in progressive-learning (schema) order
+ */
+async function listTableEntries(filePaths: string[], workbookMode: boolean, emit: Emit): Promise<PipelineEntry[]> {
+  const entries: PipelineEntry[] = [];
+
+  for (const filePath of filePaths) {
+    const resolvedPath = path.resolve(filePath);
+    const fileName = path.basename(resolvedPath);
+    const fileBaseName = fileName.replace('.xlsx', '');
+
+    if (!workbookMode || !fs.existsSync(resolvedPath)) {
+      entries.push({ file: fileName, blueprint: fileBaseName, filePath: resolvedPath, outputFileName: `${fileBaseName}.json` });
+      continue;
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(resolvedPath);
+
+    const sheetNames = BLUEPRINT_SCHEMAS
+      .map(schema => schema.name)
+      .filter(name => workbook.getWorksheet(name));
+    if (sheetNames.length === 0) {
+      await emit({
+        type: 'warning',
+        message: `${fileName} - No blueprint sheets found (${BLUEPRINT_SCHEMAS.map(schema => schema.name).join(', ')})`
+      });
+    }
+
+    sheetNames.forEach(sheetName => {
+      entries.push({
+        file: `${fileName} [${sheetName}]`,
+        blueprint: sheetName,
+        filePath: resolvedPath,
+        sheet: sheetName,
+        outputFileName: `${sheetName}.json`
+      });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Convert JSON blueprint files to XLSX (or CSV / TSV) with progressive learning
+ * Files are processed in blueprint dependency order; outputs go to outputs/ next to the first file
+ * Specifications may be given in structured form (normalized JSON); they are written as "a: b" cells
+ * @param filePaths - JSON files to transform
+ * @param options - outputFormat: xlsx (default), csv or tsv;
+ *                  singleWorkbook: write all files and the learned relationships into one blueprint.xlsx;
+ *                  dropdowns: add list data validation for vocabulary columns;
+ *                  syncMetadata: record the source of each sheet so edits can be merged back with `transform sync`;
+ *                  reportFormat: also write the validation errors as a json / junit / sarif report;
+ *                  fix / fixDistance: replace invalid values with their only suggestion within fixDistance;
+ *                  optionsStore: where learned options are kept and how the run updates them;
+ *                  onEvent: receives progress events (awaited, so a listener can pause the run)
+ * @returns Result of the run
+ * @throws Error if the run cannot start (unknown output format, upstream blueprint missing, options store unusable)
+ */
+export async function transformJsonFiles(filePaths: string[], options: TransformOptions = {}): Promise<TransformResult> {
+  if (options.outputFormat && !OUTPUT_FORMATS.includes(options.outputFormat)) {
+    throw new Error(`Unknown output format '${options.outputFormat}' (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  const emit = createEmitter(options);
+  await emit({ type: 'start', inputs: filePaths });
+
+  const entries: PipelineEntry[] = filePaths.map(filePath => {
+    const resolvedPath = path.resolve(filePath);
+    const fileName = path.basename(resolvedPath);
+    return {
+      file: fileName,
+      blueprint: fileName.replace('.json', ''),
+      filePath: resolvedPath,
+      outputFileName: fileName.replace('.json', `.${options.outputFormat || 'xlsx'}`)
+    };
+  });
+
+  return runPipeline(entries, createJsonFileSource(options), options, emit, getOutputDir(filePaths));
+}
+
+/**
+ * Convert XLSX blueprint files (or the blueprint sheets of workbooks) to JSON with progressive learning
+ * Inputs are processed in blueprint dependency order; outputs go to outputs/ next to the first file
+ * @param filePaths - XLSX files to transform
+ * @param options - workbookMode: each file is a multi-sheet blueprint workbook read by sheet name;
+ *                  annotateErrors: write an annotated copy of workbooks that fail validation;
+ *                  reportFormat: also write the validation errors as a json / junit / sarif report;
+ *                  fix / fixDistance: replace invalid values with their only suggestion within fixDistance;
+ *                  normalizedJson: write specification columns as structured lists (normalized JSON);
+ *                  optionsStore: where learned options are kept and how the run updates them;
+ *                  onEvent: receives progress events (awaited, so a listener can pause the run)
+ * @returns Result of the run
+ * @throws Error if the run cannot start (upstream blueprint missing, options store unusable)
+ */
+export async function transformTableFiles(filePaths: string[], options: TransformOptions = {}): Promise<TransformResult> {
+  const emit = createEmitter(options);
+  await emit({ type: 'start', inputs: filePaths });
+
+  const entries = await listTableEntries(filePaths, options.workbookMode || false, emit);
+  return runPipeline(entries, createTableFileSource(options), options, emit, getOutputDir(filePaths));
+}
+
+/**
+ * Convert CSV or TSV blueprint files (told apart by extension) to JSON with progressive learning
+ * Cells are read like XLSX cells: array fields are split on ', ' and "<field>.<key>" columns kept as they are
+ * Inputs are processed in blueprint dependency order; outputs go to outputs/ next to the first file
+ * @param filePaths - .csv or .tsv files to transform
+ * @param options - reportFormat, fix / fixDistance, normalizedJson, optionsStore and onEvent as for transformTableFiles
+ *                  (rows are the lines records start on)
+ * @returns Result of the run
+ * @throws Error if the run cannot start (upstream blueprint missing, options store unusable)
+ */
+export async function transformDelimitedFiles(filePaths: string[], options: TransformOptions = {}): Promise<TransformResult> {
+  const emit = createEmitter(options);
+  await emit({ type: 'start', inputs: filePaths });
+
+  const entries: PipelineEntry[] = filePaths.map(filePath => {
+    const resolvedPath = path.resolve(filePath);
+    const fileName = path.basename(resolvedPath);
+    const fileBaseName = fileName.replace(/\.(csv|tsv)$/i, '');
+    return { file: fileName, blueprint: fileBaseName, filePath: resolvedPath, outputFileName: `${fileBaseName}.json` };
+  });
+
+  return runPipeline(entries, createDelimitedFileSource(options), options, emit, getOutputDir(filePaths));
+}
+
+/**
+ * Validate and learn from in-memory blueprints, without reading or writing files (other than the options store)
+ * Records are checked like JSON files; with fix, they are patched in place (records with structured
+ * specifications are checked as copies with "a: b" columns, so those are not patched)
+ * @param blueprints - Records per blueprint name (e.g. { blueprint_tasks: [...] })
+ * @param options - fix / fixDistance, optionsStore and onEvent as for transformJsonFiles
+ * @returns Result of the run (no output paths)
+ * @throws Error if the run cannot start (upstream blueprint missing, options store unusable)
+ */
+export async function processBlueprintData(
+  blueprints: Record<string, any[]>,
+  options: TransformOptions = {}
+): Promise<TransformResult> {
+  const emit = createEmitter(options);
+  await emit({ type: 'start', inputs: Object.keys(blueprints) });
+
+  const entries: PipelineEntry[] = Object.keys(blueprints).map(name => ({ file: name, blueprint: name, records: blueprints[name] }));
+  const source: PipelineSource = {
+    sourceType: 'JSON',
+    load: async entry => readSpecificationColumns(entry.records || [], entry.blueprint),
+    reportedRow: (loaded, row) => row
+  };
+
+  return runPipeline(entries, source, options, emit);
+}
+
+/**
+ * Print a progress event of a run to console (the CLI output)
+ * @param event - Event emitted by transformJsonFiles, transformTableFiles or processBlueprintData
+ */
+export function reportTransformEvent(event: TransformEvent): void {
+  switch (event.type) {
+    case 'start':
+      console.log('\n🎓 Starting Transform with Progressive Learning...\n');
+      break;
+
+    case 'order':
+      console.log(`🔀 Processing in dependency order: ${event.order.join(' → ')}\n`);
+      break;
+
+    case 'init':
+      console.log(`📝 Initializing ${event.optionsStore.filePath} (learn: ${event.optionsStore.learn})...`);
+      console.log('─'.repeat(80));
+      break;
+
+    case 'warning':
+      console.log(`⚠️  ${event.message}`);
+      break;
+
+    case 'file':
+      reportFileResult(event.file);
+      break;
+
+    case 'relationships':
+      console.log('─'.repeat(80));
+      console.log('🔗 Building relationships...');
+      console.log(`   ✅ Built ${Object.keys(event.relationships.task_responsibilities).length} task → responsibilities mappings`);
+      console.log(`   ✅ Built ${Object.keys(event.relationships.taskProduct_producers).length} taskProduct → producers mappings`);
+      console.log(`   ✅ Built ${Object.keys(event.relationships.taskProduct_enhancements).length} taskProduct → enhancements mappings`);
+      break;
+
+    case 'serviceSpecifications':
+      console.log('─'.repeat(80));
+      console.log('📋 Building service specifications...');
+      console.log(`   ✅ Built ${Object.keys(event.serviceSpecifications).length} service specifications`);
+      break;
+
+    case 'workbook':
+      console.log('─'.repeat(80));
+      console.log(`📘 Wrote ${path.basename(event.path)} (${formatSize(fs.statSync(event.path).size)}) with sheets: ${event.sheets.join(', ')}`);
+      break;
+
+    case 'lint':
+      console.log('─'.repeat(80));
+      reportGraphLintIssues(event.issues);
+      break;
+
+    case 'fixLog':
+      console.log('─'.repeat(80));
+      console.log(`🔧 Fixed ${event.count} typo(s), change log: ${event.path}`);
+      break;
+
+    case 'report':
+      console.log('─'.repeat(80));
+      console.log(`📋 Validation report (${event.format}): ${event.path}`);
+      break;
+
+    case 'done': {
+      const { result } = event;
+      const storeName = path.basename(result.optionsStore.filePath);
+      const input = result.files.find(file => file.sourceType !== 'JSON');
+      const output = result.files.find(file => file.outputPath && !file.outputSheet);
+      const direction = input
+        ? `${input.sourceType} to JSON`
+        : `JSON to ${output ? path.extname(output.outputPath!).substring(1).toUpperCase() : 'XLSX'}`;
+      // reportSummary opens with its own separator
+      reportSummary({ successCount: result.successCount, errorCount: result.errorCount, outputDir: result.outputDir || '' }, direction);
+      if (result.optionsStore.learn === 'off') {
+        console.log(`📋 Validated against: ${storeName} (unchanged)\n`);
+      } else {
+        console.log(`📋 Built: ${storeName}\n`);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Print the result of one input to console
+ */
+function reportFileResult(file: FileResult): void {
+  if (file.status === 'missing') {
+    console.log(`⚠️  ${file.file} - Not found, skipping`);
+    return;
+  }
+  if (file.status === 'skipped') {
+    console.log(`⚠️  ${file.file} - ${file.message}, skipping`);
+    return;
+  }
+  if (file.status === 'error') {
+    console.log(`❌ ${file.file} - Error: ${file.message}`);
+    return;
+  }
+
+  // Warnings are shown as record numbers for JSON, like the validation errors
+  file.warnings.forEach(warning => {
+    const location = file.sourceType === 'JSON' ? `Record ${warning.row - 1}` : `Row ${warning.row}`;
+    console.log(`⚠️  ${file.file} - ${location}: ${warning.value}`);
+  });
+
+  if (file.fixes.length > 0) {
+    // Fixes are shown as record numbers for JSON, like the validation errors
+    const fixes = file.sourceType === 'JSON' ? file.fixes.map(fix => ({ ...fix, row: fix.row - 1 })) : file.fixes;
+    reportTypoFixes(file.file, fixes, file.sourceType);
+    if (file.fixedPath) {
+      console.log(`   📝 Patched copy: ${file.fixedPath}`);
+    }
+  }
+
+  if (file.status === 'invalid') {
+    reportValidationErrors(file.file, file.errors, file.sourceType);
+    if (file.annotatedPath) {
+      console.log(`  📝 Annotated copy: ${file.annotatedPath}`);
+      console.log('');
+    }
+    return;
+  }
+
+  const inputSize = file.filePath ? ` (${formatSize(fs.statSync(file.filePath).size)})` : '';
+  if (file.outputSheet) {
+    console.log(`✅ ${file.file}${inputSize} → ${path.basename(file.outputPath!)} [${file.outputSheet}]`);
+  } else if (file.outputPath) {
+    console.log(`✅ ${file.file}${inputSize} → ${path.basename(file.outputPath)} (${formatSize(fs.statSync(file.outputPath).size)})`);
+  } else {
+    console.log(`✅ ${file.file}${inputSize}`);
+  }
+  if (file.learned.length > 0) {
+    console.log(`   📚 Learned: ${file.learned.join(', ')}`);
+  }
+}
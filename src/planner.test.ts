@@ -0,0 +1,87 @@
+import * as path from 'path';
+import { loadBlueprintSet } from './blueprints';
+import { planService } from './planner';
+import { BlueprintSet } from './types';
+
+const inputJsonsDir = path.join(__dirname, '../input_jsons');
+
+describe('Service execution planner', () => {
+  let blueprints: BlueprintSet;
+
+  beforeAll(async () => {
+    blueprints = await loadBlueprintSet([
+      path.join(inputJsonsDir, 'blueprint_task_products.json'),
+      path.join(inputJsonsDir, 'blueprint_tasks.json'),
+      path.join(inputJsonsDir, 'blueprint_services.json')
+    ]);
+  });
+
+  test('resolves the full task chain of Floor Plan', () => {
+    const plan = planService('Floor Plan', blueprints);
+    
+    expect(plan.selected).not.toBeNull();
+    expect(plan.selected!.steps.map(step => step.task)).toEqual([
+      'Data-Acquisition',
+      'Pano-Generation-spins',
+      'Geometry-building-spins',
+      'floorplan-building'
+    ]);
+    
+    const geometryStep = plan.selected!.steps.find(step => step.task === 'Geometry-building-spins');
+    expect(geometryStep!.responsibility).toBe('IM-operators');
+  });
+
+  test('lists alternative producers of the same taskProduct', () => {
+    const plan = planService('Floor Plan', blueprints);
+    const panoProducers = new Set(plan.alternatives.map(a => a.choices['Panos']).filter(Boolean));
+    
+    expect(panoProducers).toEqual(new Set(['Pano-Generation-spins', 'Pano-Generation-dslr']));
+  });
+
+  test('uses the transformation specification to pick a path', () => {
+    const plan = planService('DSLR Photos', blueprints);
+    
+    expect(plan.selected!.choices['Panos']).toBe('Pano-Generation-dslr');
+  });
+
+  test('assigns a responsibility to every task named in a multi-valued specification', () => {
+    const services = blueprints.services.map(service => service.Service === 'Floor Plan'
+      ? { ...service, 'responsibility specification (Task:Responsibility)': 'Geometry-building-spins: IM-operators; Data-Acquisition: client' }
+      : service);
+    const plan = planService('Floor Plan', { ...blueprints, services });
+    
+    expect(plan.selected!.steps.map(step => [step.task, step.responsibility])).toEqual([
+      ['Data-Acquisition', 'client'],
+      ['Pano-Generation-spins', 'auto'],
+      ['Geometry-building-spins', 'IM-operators'],
+      ['floorplan-building', 'auto']
+    ]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  test('places the enhancement task after the producer of its medium', () => {
+    const plan = planService('HDR Photo Blurring', blueprints);
+    const tasks = plan.selected!.steps.map(step => step.task);
+    
+    expect(tasks.indexOf('Panos-Blurring')).toBeGreaterThan(tasks.indexOf('Pano-Generation-spins'));
+    expect(tasks.indexOf('Panos-Blurring')).toBeLessThan(tasks.indexOf('Photo-Capture'));
+  });
+
+  test('reports a service asking for enhancements out of the declared order', () => {
+    const services = blueprints.services.map(service => service.Service === 'Pano Staging'
+      ? { ...service, 'enhancement medium specification (enhancement:taskProduct)': 'Staging: Panos; Photo-enhancement: Panos' }
+      : service);
+    const plan = planService('Pano Staging', { ...blueprints, services });
+    const tasks = plan.selected!.steps.map(step => step.task);
+
+    expect(plan.orderViolations).toEqual([
+      '"Staging" is applied to "Panos" before "Photo-enhancement" (enhancement-order: Photo-enhancement → Blur → Staging → Declutter)'
+    ]);
+    expect(tasks.indexOf('Panos-Photo-enhancement')).toBeLessThan(tasks.indexOf('Panos-Staging'));
+    expect(planService('Pano Staging', blueprints).orderViolations).toEqual([]);
+  });
+
+  test('throws for an unknown service', () => {
+    expect(() => planService('Unknown Service', blueprints)).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Service execution planner
+ * Resolves the full task chain behind a service by walking the inputs/outputs graph backwards
+ */
+
+import { parseSpecification } from './transforms';
+import { toArray, buildBaseProducers, indexTasks } from './graph';
+import { buildTaskProductEnhancements } from './validation';
+import { findSpecificationColumn } from './schema';
+import {
+  buildEnhancementChain,
+  findEnhancementOrderViolations,
+  findPlanEnhancementOrderViolations,
+  describeEnhancementOrderViolation
+} from './enhancements';
+import { BlueprintSet, ExecutionPlan, PlanStep, ServicePlan } from './types';
+
+/**
+ * Enumerate every consistent way to produce a taskProduct
+ * Each result maps a taskProduct to the task chosen to produce it ('' for external inputs)
+ * @param taskProduct - taskProduct to resolve
+ * @param producers - taskProduct → non-enhancement producer tasks
+ * @param tasksByName - task name → task record
+ * @param choices - Choices made so far
+ * @param stack - taskProducts currently being resolved (cycle guard)
+ * @returns Array of choice maps, one per alternative path
+ */
+function resolveProduct(
+  taskProduct: string,
+  producers: Record<string, string[]>,
+  tasksByName: Record<string, any>,
+  choices: Record<string, string>,
+  stack: string[]
+): Record<string, string>[] {
+  if (taskProduct in choices) {
+    return [choices];
+  }
+  if (stack.includes(taskProduct)) {
+    return [];
+  }
+
+  const candidates = producers[taskProduct] || [];
+  if (candidates.length === 0) {
+    return [{ ...choices, [taskProduct]: '' }];
+  }
+
+  const results: Record<string, string>[] = [];
+  for (const candidate of candidates) {
+    let partial: Record<string, string>[] = [{ ...choices, [taskProduct]: candidate }];
+    for (const input of toArray(tasksByName[candidate].inputs)) {
+      partial = partial.flatMap(c => resolveProduct(input, producers, tasksByName, c, [...stack, taskProduct]));
+    }
+    results.push(...partial);
+  }
+
+  return results;
+}
+
+/**
+ * Build the ordered steps of a plan from a choice map
+ * Producers come before their consumers; enhancement tasks follow the producer of their taskProduct
+ */
+function buildExecutionPlan(
+  taskProduct: string,
+  choices: Record<string, string>,
+  tasksByName: Record<string, any>,
+  enhancementTasks: Record<string, string[]>,
+  responsibilities: Record<string, string>
+): ExecutionPlan {
+  const orderedTasks: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (product: string) => {
+    if (visited.has(product)) return;
+    visited.add(product);
+
+    const task = choices[product];
+    if (!task) return;
+
+    toArray(tasksByName[task].inputs).forEach(visit);
+    if (!orderedTasks.includes(task)) {
+      orderedTasks.push(task);
+    }
+    (enhancementTasks[product] || []).forEach(enhancementTask => {
+      if (!orderedTasks.includes(enhancementTask)) {
+        orderedTasks.push(enhancementTask);
+      }
+    });
+  };
+  visit(taskProduct);
+
+  const steps: PlanStep[] = orderedTasks.map(task => {
+    const taskRow = tasksByName[task];
+    const responsibilityOptions = toArray(taskRow.responsibility_options);
+    let responsibility: string | null = responsibilities[task] || null;
+    if (!responsibility && responsibilityOptions.length === 1) {
+      responsibility = responsibilityOptions[0];
+    }
+
+    return {
+      task,
+      inputs: toArray(taskRow.inputs),
+      outputs: toArray(taskRow.outputs),
+      enhancement: taskRow.enhancement || '',
+      responsibility,
+      responsibilityOptions
+    };
+  });
+
+  const externalInputs = Object.keys(choices).filter(product => choices[product] === '');
+  const planChoices: Record<string, string> = {};
+  Object.keys(choices)
+    .filter(product => choices[product] !== '')
+    .forEach(product => { planChoices[product] = choices[product]; });
+
+  return { steps, choices: planChoices, externalInputs };
+}
+
+/**
+ * Read the pairs of a service's specification column (a malformed specification is ignored with a warning)
+ */
+function readSpecification(service: any, firstPart: string, secondPart: string, plan: ServicePlan): [string, string][] {
+  const column = findSpecificationColumn(firstPart, secondPart);
+  const pairs = parseSpecification(service[column]);
+  if (!pairs) {
+    plan.warnings.push(`Malformed ${column}: "${service[column]}"`);
+  }
+  return pairs || [];
+}
+
+/**
+ * Plan the execution of a service
+ * @param serviceName - Value of the Service column
+ * @param blueprints - Loaded blueprint_tasks and blueprint_services records
+ * @returns Selected plan and all alternative paths
+ * @throws Error if the service is not in blueprint_services
+ */
+export function planService(serviceName: string, blueprints: BlueprintSet): ServicePlan {
+  const service = blueprints.services.find((s: any) => s.Service === serviceName);
+  if (!service) {
+    throw new Error(`Service '${serviceName}' not found in blueprint_services`);
+  }
+
+  const taskProduct = String(service.taskProduct || '').trim();
+  const plan: ServicePlan = {
+    service: serviceName,
+    taskProduct,
+    selected: null,
+    alternatives: [],
+    warnings: [],
+    orderViolations: []
+  };
+  if (!taskProduct) {
+    plan.warnings.push('Service has no taskProduct');
+    return plan;
+  }
+
+  const tasksByName = indexTasks(blueprints.tasks);
+  const producers = buildBaseProducers(blueprints.tasks);
+
+  // Responsibility specification assigns a responsibility to each task it names
+  const responsibilities: Record<string, string> = {};
+  const responsibilitySpec = readSpecification(service, 'task', 'responsibility_options', plan);
+  responsibilitySpec.forEach(([task, responsibility]) => {
+    responsibilities[task] = responsibility;
+  });
+
+  // Enhancement medium specification (or the service's own taskProduct) selects enhancement tasks
+  const requestedEnhancements: Record<string, string[]> = {};
+  const enhancement = String(service.enhancement || '').trim();
+  const mediumSpec = readSpecification(service, 'enhancement', 'taskProduct', plan);
+  const mediums = mediumSpec.length > 0 ? mediumSpec : enhancement ? [[enhancement, taskProduct]] : [];
+  mediums.forEach(([mediumEnhancement, medium]) => {
+    requestedEnhancements[medium] = [...(requestedEnhancements[medium] || []), mediumEnhancement];
+  });
+
+  // Enhancement tasks per taskProduct, chained in the declared enhancement-order
+  // The order the service asks for is checked first, since the chain is always sorted
+  const enhancementOrders = buildTaskProductEnhancements(blueprints.taskProducts);
+  const enhancementTasks: Record<string, string[]> = {};
+  Object.keys(requestedEnhancements).forEach(product => {
+    const enhancementOrder = enhancementOrders[product] || [];
+    findEnhancementOrderViolations(requestedEnhancements[product], enhancementOrder).forEach(violation => {
+      plan.orderViolations.push(describeEnhancementOrderViolation(product, violation, enhancementOrder));
+    });
+    const chain = buildEnhancementChain(
+      product,
+      requestedEnhancements[product],
+      enhancementOrder,
+      blueprints.tasks
+    );
+    enhancementTasks[product] = chain.tasks;
+    chain.missing.forEach(missing => {
+      plan.warnings.push(`No task adds "${missing}" enhancement to "${product}"`);
+    });
+  });
+
+  const allChoices = resolveProduct(taskProduct, producers, tasksByName, {}, []);
+  plan.alternatives = allChoices.map(choices =>
+    buildExecutionPlan(taskProduct, choices, tasksByName, enhancementTasks, responsibilities)
+  );
+
+  Object.keys(enhancementTasks).forEach(product => {
+    if (plan.alternatives.length > 0 && !plan.alternatives.some(a => product in a.choices)) {
+      plan.warnings.push(`Enhanced taskProduct "${product}" is not part of the task chain`);
+    }
+  });
+
+  // Select a plan: transformation specification first, then the task named in the
+  // responsibility specification, then paths fully reachable from source tasks
+  let candidates = plan.alternatives;
+  readSpecification(service, 'taskProduct', 'task', plan).forEach(([specProduct, specTask]) => {
+    const matching = candidates.filter(a => a.choices[specProduct] === specTask);
+    if (matching.length > 0) {
+      candidates = matching;
+    } else {
+      plan.warnings.push(`Transformation specification "${specProduct}:${specTask}" matches no path`);
+    }
+  });
+
+  responsibilitySpec.forEach(([task]) => {
+    const matching = candidates.filter(a => a.steps.some(step => step.task === task));
+    if (matching.length > 0) {
+      candidates = matching;
+    } else {
+      plan.warnings.push(`Task "${task}" from responsibility specification is not part of any path`);
+    }
+  });
+
+  const reachable = candidates.filter(a => a.externalInputs.length === 0);
+  if (reachable.length > 0) {
+    candidates = reachable;
+  }
+
+  plan.selected = candidates[0] || null;
+  if (plan.selected) {
+    findPlanEnhancementOrderViolations(plan.selected, enhancementOrders)
+      .filter(violation => !plan.orderViolations.includes(violation))
+      .forEach(violation => plan.orderViolations.push(violation));
+  }
+  return plan;
+}
+
+/**
+ * Describe the choices that distinguish an alternative path
+ */
+function describeChoices(plan: ExecutionPlan, ambiguousProducts: string[]): string {
+  return ambiguousProducts
+    .filter(product => product in plan.choices)
+    .map(product => `${product} ← ${plan.choices[product]}`)
+    .join(', ');
+}
+
+/**
+ * Report a service plan to console
+ * @param plan - Plan returned by planService
+ */
+export function reportServicePlan(plan: ServicePlan): void {
+  console.log(`\n🗺️  Execution plan for "${plan.service}" → ${plan.taskProduct || '(no taskProduct)'}\n`);
+
+  if (plan.selected) {
+    plan.selected.steps.forEach((step, idx) => {
+      const responsibility = step.responsibility
+        || `${step.responsibilityOptions.join(' | ')} (unspecified)`;
+      const enhancement = step.enhancement ? ` [${step.enhancement}]` : '';
+      console.log(`  ${String(idx + 1).padStart(2)}. ${step.task}${enhancement}`);
+      console.log(`      ${step.inputs.join(', ') || '∅'} → ${step.outputs.join(', ')}`);
+      console.log(`      Responsibility: ${responsibility}`);
+    });
+
+    if (plan.selected.externalInputs.length > 0) {
+      console.log(`\n  External inputs: ${plan.selected.externalInputs.join(', ')}`);
+    }
+  } else {
+    console.log('  No execution plan found');
+  }
+
+  if (plan.alternatives.length > 1) {
+    // Products with more than one producer across the alternatives
+    const ambiguousProducts = [...new Set(plan.alternatives.flatMap(a => Object.keys(a.choices)))]
+      .filter(product => new Set(
+        plan.alternatives.filter(a => product in a.choices).map(a => a.choices[product])
+      ).size > 1);
+
+    console.log(`\n  Alternative paths (${plan.alternatives.length}):`);
+    plan.alternatives.forEach(alternative => {
+      const marker = alternative === plan.selected ? '→' : ' ';
+      const external = alternative.externalInputs.length > 0
+        ? ` (needs external: ${alternative.externalInputs.join(', ')})`
+        : '';
+      console.log(`  ${marker} ${describeChoices(alternative, ambiguousProducts)}${external}`);
+    });
+  }
+
+  if (plan.warnings.length > 0) {
+    console.log('');
+    plan.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+  }
+
+  if (plan.orderViolations.length > 0) {
+    console.log('');
+    plan.orderViolations.forEach(violation => console.log(`  ❌ Enhancement order: ${violation}`));
+  }
+  console.log('');
+}
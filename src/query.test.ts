@@ -0,0 +1,74 @@
+import { formatQueryTable, indexServiceReferences, queryProducers, queryResponsibilities, queryService, queryServicesUsing } from './query';
+
+const options = {
+  taskProduct: ['Panos', 'geometry-scaffold', 'Floorplan'],
+  task: ['Data-Acquisition', 'Geometry-building-spins', 'floorplan-building'],
+  enhancement: ['Blur'],
+  responsibility_options: ['IM-operators', 'auto'],
+  task_responsibilities: { 'Geometry-building-spins': ['IM-operators', 'auto'], 'floorplan-building': ['auto'] },
+  taskProduct_producers: { 'geometry-scaffold': ['Geometry-building-spins'], 'Floorplan': ['floorplan-building'] },
+  service_specifications: {
+    'Pano Blurring': {
+      taskProduct: 'Panos',
+      enhancement: 'Blur',
+      'responsibility specification (Task:Responsibility)': null,
+      'transformation specification (taskProduct:task)': null,
+      'enhancement medium specification (enhancement:taskProduct)': 'Blur: Panos'
+    },
+    'LiDAR Floor Plan': {
+      taskProduct: 'Floorplan',
+      enhancement: null,
+      'responsibility specification (Task:Responsibility)': 'Geometry-building-spins: IM-operators',
+      'transformation specification (taskProduct:task)': 'geometry-scaffold:Geometry-building-spins',
+      'enhancement medium specification (enhancement:taskProduct)': null
+    }
+  }
+};
+
+describe('Catalog queries', () => {
+  test('indexes both parts of compound specifications', () => {
+    const references = indexServiceReferences(options.service_specifications);
+
+    expect(references.filter(reference => reference.service === 'LiDAR Floor Plan')).toEqual([
+      { service: 'LiDAR Floor Plan', field: 'taskProduct', vocabulary: 'taskProduct', value: 'Floorplan' },
+      { service: 'LiDAR Floor Plan', field: 'responsibility specification (Task:Responsibility)', vocabulary: 'task', value: 'Geometry-building-spins' },
+      { service: 'LiDAR Floor Plan', field: 'responsibility specification (Task:Responsibility)', vocabulary: 'responsibility_options', value: 'IM-operators' },
+      { service: 'LiDAR Floor Plan', field: 'transformation specification (taskProduct:task)', vocabulary: 'taskProduct', value: 'geometry-scaffold' },
+      { service: 'LiDAR Floor Plan', field: 'transformation specification (taskProduct:task)', vocabulary: 'task', value: 'Geometry-building-spins' }
+    ]);
+  });
+
+  test('finds services using a value in any field', () => {
+    expect(queryServicesUsing(options, 'Panos').rows).toEqual([
+      { service: 'Pano Blurring', field: 'taskProduct', as: 'taskProduct' },
+      { service: 'Pano Blurring', field: 'enhancement medium specification (enhancement:taskProduct)', as: 'taskProduct' }
+    ]);
+    expect(queryServicesUsing(options, 'geometry-scaffold').rows).toEqual([
+      { service: 'LiDAR Floor Plan', field: 'transformation specification (taskProduct:task)', as: 'taskProduct' }
+    ]);
+    expect(queryServicesUsing(options, 'Data-Acquisition').rows).toEqual([]);
+  });
+
+  test('lists producers, responsibilities and service specifications', () => {
+    expect(queryProducers(options, 'geometry-scaffold').rows).toEqual([
+      { task: 'Geometry-building-spins', responsibilities: ['IM-operators', 'auto'] }
+    ]);
+    expect(queryProducers(options, 'Panos').rows).toEqual([]);
+    expect(queryResponsibilities(options, 'floorplan-building').rows).toEqual([{ responsibility: 'auto' }]);
+    expect(queryService(options, 'Pano Blurring').rows).toContainEqual({ field: 'enhancement', value: 'Blur' });
+  });
+
+  test('rejects unknown names with suggestions', () => {
+    expect(() => queryProducers(options, 'Floorplann')).toThrow("Unknown taskProduct 'Floorplann' (did you mean: Floorplan?)");
+    expect(() => queryService(options, 'Floor Plan')).toThrow("Unknown service 'Floor Plan'");
+    expect(() => queryServicesUsing(options, 'Staging')).toThrow("Unknown taskProduct, task, enhancement or responsibility 'Staging'");
+  });
+
+  test('formats rows as an aligned table', () => {
+    expect(formatQueryTable(queryProducers(options, 'geometry-scaffold'))).toEqual([
+      'task                     responsibilities',
+      '───────────────────────  ──────────────────',
+      'Geometry-building-spins  IM-operators, auto'
+    ]);
+  });
+});
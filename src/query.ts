@@ -0,0 +1,157 @@
+/**
+ * Catalog queries (transform query) over the learned options: services, producers, responsibilities
+ */
+
+import { findClosestMatches } from './validation';
+import { parseSpecification } from './transforms';
+import { getBlueprintSchemaOrDefault } from './schema';
+import { QueryResult, ServiceReference } from './types';
+
+/**
+ * Output formats of `transform query`
+ */
+export const QUERY_FORMATS = ['table', 'json'];
+
+/**
+ * Throw if a value is not in a learned vocabulary, suggesting close matches
+ * @throws Error naming the vocabulary and the closest values
+ */
+function requireKnown(value: string, values: string[], kind: string): void {
+  if (values.includes(value)) return;
+  const suggestions = findClosestMatches(value, values, 3);
+  throw new Error(`Unknown ${kind} '${value}'${suggestions.length > 0 ? ` (did you mean: ${suggestions.join(', ')}?)` : ''}`);
+}
+
+/**
+ * Index the catalog values each service specification refers to, including both parts
+ * of every pair of its compound specifications (e.g. "geometry-scaffold:Geometry-building-spins")
+ * @param serviceSpecifications - service_specifications of the options store
+ * @returns One reference per service, field and value
+ */
+export function indexServiceReferences(serviceSpecifications: Record<string, any>): ServiceReference[] {
+  const schema = getBlueprintSchemaOrDefault('blueprint_services');
+  const references: ServiceReference[] = [];
+
+  Object.keys(serviceSpecifications).forEach(service => {
+    const specification = serviceSpecifications[service] || {};
+    Object.keys(schema.vocabularies).forEach(field => {
+      if (specification[field]) {
+        references.push({ service, field, vocabulary: schema.vocabularies[field], value: String(specification[field]).trim() });
+      }
+    });
+    schema.specificationColumns.forEach(({ column, parts }) => {
+      (parseSpecification(specification[column]) || []).forEach(pair => {
+        pair.forEach((value, index) => references.push({ service, field: column, vocabulary: parts[index], value }));
+      });
+    });
+  });
+
+  return references;
+}
+
+/**
+ * Services whose specification uses a taskProduct, task, enhancement or responsibility
+ * @param options - Learned options (available_options.json)
+ * @param name - Catalog value
+ * @returns One row per service and field using the value
+ * @throws Error if no vocabulary holds the value
+ */
+export function queryServicesUsing(options: Record<string, any>, name: string): QueryResult {
+  const references = indexServiceReferences(options['service_specifications'] || {});
+  const vocabularies = [...new Set(references.map(reference => reference.vocabulary))];
+  requireKnown(name, vocabularies.flatMap(vocabulary => options[vocabulary] || []), 'taskProduct, task, enhancement or responsibility');
+
+  return {
+    title: `Services using '${name}'`,
+    columns: ['service', 'field', 'as'],
+    rows: references
+      .filter(reference => reference.value === name)
+      .map(reference => ({ service: reference.service, field: reference.field, as: reference.vocabulary }))
+  };
+}
+
+/**
+ * Tasks that can produce a taskProduct (taskProduct_producers), with their responsibilities
+ * @param options - Learned options (available_options.json)
+ * @param taskProduct - TaskProduct name
+ * @returns One row per producing task
+ * @throws Error if the taskProduct is unknown
+ */
+export function queryProducers(options: Record<string, any>, taskProduct: string): QueryResult {
+  requireKnown(taskProduct, options['taskProduct'] || [], 'taskProduct');
+  const producers: string[] = (options['taskProduct_producers'] || {})[taskProduct] || [];
+  const responsibilities = options['task_responsibilities'] || {};
+
+  return {
+    title: `Tasks producing '${taskProduct}'`,
+    columns: ['task', 'responsibilities'],
+    rows: producers.map(task => ({ task, responsibilities: responsibilities[task] || [] }))
+  };
+}
+
+/**
+ * Responsibilities a task allows (task_responsibilities)
+ * @param options - Learned options (available_options.json)
+ * @param task - Task name
+ * @returns One row per responsibility
+ * @throws Error if the task is unknown
+ */
+export function queryResponsibilities(options: Record<string, any>, task: string): QueryResult {
+  requireKnown(task, options['task'] || [], 'task');
+  const responsibilities: string[] = (options['task_responsibilities'] || {})[task] || [];
+
+  return {
+    title: `Responsibilities of '${task}'`,
+    columns: ['responsibility'],
+    rows: responsibilities.map(responsibility => ({ responsibility }))
+  };
+}
+
+/**
+ * Full specification of a service (service_specifications)
+ * @param options - Learned options (available_options.json)
+ * @param service - Service name
+ * @returns One row per specification field
+ * @throws Error if the service is unknown
+ */
+export function queryService(options: Record<string, any>, service: string): QueryResult {
+  const specifications = options['service_specifications'] || {};
+  requireKnown(service, Object.keys(specifications), 'service');
+
+  return {
+    title: `Service '${service}'`,
+    columns: ['field', 'value'],
+    rows: Object.keys(specifications[service]).map(field => ({ field, value: specifications[service][field] }))
+  };
+}
+
+/**
+ * Format a query result as an aligned text table (list values are joined with ', ')
+ * @param result - Query result
+ * @returns Table lines
+ */
+export function formatQueryTable(result: QueryResult): string[] {
+  const cell = (value: any) => Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '' : String(value);
+  const cells = result.rows.map(row => result.columns.map(column => cell(row[column])));
+  const widths = result.columns.map((column, index) => Math.max(column.length, ...cells.map(row => row[index].length)));
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+
+  return [line(result.columns), line(widths.map(width => '─'.repeat(width))), ...cells.map(line)];
+}
+
+/**
+ * Print a query result
+ * @param result - Query result
+ * @param format - 'table' (title, then a table) or 'json' (the rows only)
+ */
+export function reportQueryResult(result: QueryResult, format: string): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(result.rows, null, 2));
+    return;
+  }
+
+  console.log(`🔎 ${result.title}: ${result.rows.length} result(s)`);
+  if (result.rows.length > 0) {
+    formatQueryTable(result).forEach(line => console.log(line));
+  }
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildReportEntries, findJsonRecordLines, formatJUnitReport, formatSarifReport } from './reports';
+import { FileValidationResult } from './types';
+
+const records = [
+  { Service: 'Pano Blurring', taskProduct: 'Panoss', enhancement: 'Blur' },
+  { Service: 'Floorplan', taskProduct: 'Floorplan', enhancement: '' }
+];
+
+describe('Validation reports', () => {
+  let tempDir: string;
+  let result: FileValidationResult;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-test-'));
+    const filePath = path.join(tempDir, 'blueprint_services.json');
+    fs.writeFileSync(filePath, JSON.stringify(records, null, 2), 'utf-8');
+    result = {
+      file: 'blueprint_services.json',
+      filePath,
+      sourceType: 'JSON',
+      errors: [{ row: 2, field: 'taskProduct', value: 'Panoss', validOptions: ['Panos', 'Floorplan'] }]
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('finds the start line of each JSON record', () => {
+    expect(findJsonRecordLines(JSON.stringify(records, null, 2))).toEqual([2, 7]);
+    expect(findJsonRecordLines('[{"a": "x, {y}"}, {"b": 1}]')).toEqual([1, 1]);
+  });
+
+  test('locates errors in the JSON source and suggests fixes', () => {
+    expect(buildReportEntries([result])).toEqual([{
+      file: 'blueprint_services.json',
+      row: 1,
+      line: 4,
+      field: 'taskProduct',
+      value: 'Panoss',
+      validOptions: ['Panos', 'Floorplan'],
+      suggestions: ['Panos']
+    }]);
+  });
+
+  test('writes one JUnit test case per error and a passing case for valid files', () => {
+    const valid: FileValidationResult = { file: 'blueprint_tasks.json', filePath: '', sourceType: 'JSON', errors: [] };
+    const xml = formatJUnitReport([valid, result]);
+
+    expect(xml).toContain('<testsuites name="blueprint validation" tests="2" failures="1">');
+    expect(xml).toContain('<testcase classname="blueprint_tasks.json" name="valid"/>');
+    expect(xml).toContain('name="Record 1: taskProduct"');
+    expect(xml).toContain('Did you mean: &quot;Panos&quot;?');
+  });
+
+  test('describes errors by their kind', () => {
+    const duplicate = '"Floorplan" is defined 2 times (identical definitions)';
+    result.errors = [{ row: 3, field: 'Service (duplicate)', value: duplicate, validOptions: [], kind: 'duplicate' }];
+
+    expect(buildReportEntries([result])[0]).toMatchObject({ kind: 'duplicate' });
+    expect(formatJUnitReport([result])).toContain(`message="${duplicate.replace(/"/g, '&quot;')}"`);
+    expect(JSON.parse(formatSarifReport([result])).runs[0].results[0].message.text).toBe(duplicate);
+  });
+
+  test('numbers the other rows of a duplicate like its row', () => {
+    const duplicate = '"Floorplan" is defined 2 times (identical definitions)';
+    result.errors = [{ row: 3, field: 'Service (duplicate)', value: duplicate, validOptions: [], kind: 'duplicate', otherRows: [5] }];
+
+    expect(buildReportEntries([result])[0]).toMatchObject({ row: 2, otherRows: [4] });
+    expect(JSON.parse(formatSarifReport([result])).runs[0].results[0].message.text).toBe(`${duplicate}; other row(s): 4`);
+  });
+
+  test('writes SARIF results with source locations', () => {
+    const sarif = JSON.parse(formatSarifReport([result]));
+    const [sarifResult] = sarif.runs[0].results;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarifResult.ruleId).toBe('invalid-value');
+    expect(sarifResult.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'blueprint_services.json' },
+      region: { startLine: 4 }
+    });
+    expect(sarifResult.properties.suggestions).toEqual(['Panos']);
+  });
+});
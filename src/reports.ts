@@ -0,0 +1,295 @@
+/**
+ * Machine-readable validation reports (JSON, JUnit XML, SARIF) for CI systems and editors
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findClosestMatches } from './validation';
+import { describeValidationError } from './annotate';
+import { FileValidationResult, ValidationReportEntry } from './types';
+
+/**
+ * Supported report formats
+ */
+export const REPORT_FORMATS = ['json', 'junit', 'sarif'];
+
+/**
+ * File extension of each report format
+ */
+const REPORT_EXTENSIONS: Record<string, string> = {
+  json: 'json',
+  junit: 'xml',
+  sarif: 'sarif'
+};
+
+/**
+ * Base name of the report written next to the outputs
+ */
+const REPORT_BASE_NAME = 'validation-report';
+
+/**
+ * SARIF rule reported for every invalid value
+ */
+const SARIF_RULE_ID = 'invalid-value';
+
+/**
+ * Find the 1-based line at which each top-level element of a JSON array starts
+ * @param content - JSON file content
+ * @returns Start line per array element (empty if the content is not an array)
+ */
+export function findJsonRecordLines(content: string): number[] {
+  const lines: number[] = [];
+  let depth = 0;
+  let line = 1;
+  let inString = false;
+  let escaped = false;
+  // Whether the next non-whitespace character at depth 1 starts an element
+  let expectElement = false;
+
+  for (const char of content) {
+    if (char === '\n') line++;
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+
+    if (depth === 1 && expectElement && char !== ']') {
+      lines.push(line);
+      expectElement = false;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+      if (depth === 1) expectElement = true;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 1) {
+      expectElement = true;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Find the source line of a field within a JSON record
+ * Falls back to the first line of the record if the key cannot be found
+ * @param contentLines - JSON file content split into lines
+ * @param recordLines - Result of findJsonRecordLines
+ * @param recordIndex - 0-based array index of the record
+ * @param field - Field of the validation error (specification errors name a part of the column)
+ * @returns 1-based line number
+ */
+function findJsonFieldLine(
+  contentLines: string[],
+  recordLines: number[],
+  recordIndex: number,
+  field: string
+): number {
+  const start = recordLines[recordIndex];
+  if (!start) return 1;
+  const end = recordLines[recordIndex + 1] || contentLines.length + 1;
+
+  for (let line = start; line < end; line++) {
+    const match = contentLines[line - 1].match(/^\s*"((?:[^"\\]|\\.)*)"\s*:/);
+    if (match && (match[1] === field || field.startsWith(`${match[1]} (`))) {
+      return line;
+    }
+  }
+  return start;
+}
+
+/**
+ * Flatten validation results into report entries
+ * JSON rows are 1-based record numbers, XLSX rows are Excel rows; line is the line in the source file
+ * @param results - Validation results per file
+ * @returns One entry per validation error
+ */
+export function buildReportEntries(results: FileValidationResult[]): ValidationReportEntry[] {
+  return results.flatMap(result => {
+    let contentLines: string[] = [];
+    let recordLines: number[] = [];
+    if (result.sourceType === 'JSON' && result.errors.length > 0 && fs.existsSync(result.filePath)) {
+      const content = fs.readFileSync(result.filePath, 'utf-8');
+      contentLines = content.split('\n');
+      recordLines = findJsonRecordLines(content);
+    }
+
+    return result.errors.map(error => {
+      const isJson = result.sourceType === 'JSON';
+      return {
+        file: result.file,
+        ...(result.sheet ? { sheet: result.sheet } : {}),
+        row: isJson ? error.row - 1 : error.row,
+        line: isJson ? findJsonFieldLine(contentLines, recordLines, error.row - 2, error.field) : error.row,
+        field: error.field,
+        value: error.value,
+        validOptions: error.validOptions,
+        suggestions: findClosestMatches(error.value, error.validOptions, 3),
+        ...(error.kind ? { kind: error.kind } : {}),
+        ...(error.otherRows ? { otherRows: error.otherRows.map(row => isJson ? row - 1 : row) } : {})
+      };
+    });
+  });
+}
+
+/**
+ * Escape a string for use in XML text and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Describe a report entry in one line, including suggestions
+ */
+function describeEntry(entry: ValidationReportEntry): string {
+  const { row, field, value, validOptions, kind, otherRows } = entry;
+  const reason = describeValidationError({ row, field, value, validOptions, kind, otherRows });
+  return entry.suggestions.length > 0
+    ? `${reason}. Did you mean: ${entry.suggestions.map(s => `"${s}"`).join(', ')}?`
+    : reason;
+}
+
+/**
+ * Format validation results as a JSON report
+ * @param results - Validation results per file
+ * @returns JSON document with a summary and one entry per error
+ */
+export function formatJsonReport(results: FileValidationResult[]): string {
+  const errors = buildReportEntries(results);
+  const report = {
+    summary: {
+      files: results.length,
+      failedFiles: results.filter(result => result.errors.length > 0).length,
+      errors: errors.length
+    },
+    errors
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format validation results as JUnit XML
+ * Every file is a test suite; every error is a failed test case, valid files get one passing test case
+ * @param results - Validation results per file
+ * @returns JUnit XML document
+ */
+export function formatJUnitReport(results: FileValidationResult[]): string {
+  const failures = results.reduce((sum, result) => sum + result.errors.length, 0);
+  const totalTests = results.reduce((sum, result) => sum + Math.max(result.errors.length, 1), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="blueprint validation" tests="${totalTests}" failures="${failures}">`
+  ];
+
+  results.forEach(result => {
+    const fileEntries = buildReportEntries([result]);
+    const suite = escapeXml(result.sheet ? `${result.file} [${result.sheet}]` : result.file);
+    lines.push(`  <testsuite name="${suite}" tests="${Math.max(fileEntries.length, 1)}" failures="${fileEntries.length}">`);
+
+    if (fileEntries.length === 0) {
+      lines.push(`    <testcase classname="${suite}" name="valid"/>`);
+    }
+
+    fileEntries.forEach(entry => {
+      const location = result.sourceType === 'JSON' ? `Record ${entry.row}` : `Row ${entry.row}`;
+      lines.push(`    <testcase classname="${suite}" name="${escapeXml(`${location}: ${entry.field}`)}">`);
+      lines.push(`      <failure message="${escapeXml(describeEntry(entry))}" type="${SARIF_RULE_ID}">` +
+        escapeXml(`${result.file}:${entry.line}\nValid options: ${entry.validOptions.join(', ')}`) +
+        '</failure>');
+      lines.push('    </testcase>');
+    });
+
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format validation results as SARIF 2.1.0
+ * @param results - Validation results per file
+ * @returns SARIF log
+ */
+export function formatSarifReport(results: FileValidationResult[]): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'transform',
+            rules: [
+              {
+                id: SARIF_RULE_ID,
+                shortDescription: { text: 'Value is not in the learned vocabulary' }
+              }
+            ]
+          }
+        },
+        results: buildReportEntries(results).map(entry => ({
+          ruleId: SARIF_RULE_ID,
+          level: 'error',
+          message: { text: describeEntry(entry) },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: entry.file.split(path.sep).join('/') },
+                region: { startLine: entry.line }
+              }
+            }
+          ],
+          properties: {
+            ...(entry.sheet ? { sheet: entry.sheet } : {}),
+            row: entry.row,
+            field: entry.field,
+            value: entry.value,
+            validOptions: entry.validOptions,
+            suggestions: entry.suggestions
+          }
+        }))
+      }
+    ]
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Write a validation report next to the outputs
+ * @param results - Validation results per file
+ * @param format - Report format (one of REPORT_FORMATS)
+ * @param outputDir - Output directory
+ * @returns Path of the written report
+ * @throws Error for unknown formats
+ */
+export function writeValidationReport(results: FileValidationResult[], format: string, outputDir: string): string {
+  let content: string;
+  if (format === 'json') {
+    content = formatJsonReport(results);
+  } else if (format === 'junit') {
+    content = formatJUnitReport(results);
+  } else if (format === 'sarif') {
+    content = formatSarifReport(results);
+  } else {
+    throw new Error(`Unknown report format '${format}' (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+
+  const reportPath = path.join(outputDir, `${REPORT_BASE_NAME}.${REPORT_EXTENSIONS[format]}`);
+  fs.writeFileSync(reportPath, content, 'utf-8');
+  return reportPath;
+}
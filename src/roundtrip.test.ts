@@ -213,3 +213,52 @@ describe('Roundtrip Tests: XLSX → JSON → XLSX', () => {
     });
   }
 });
+
+// TEST SUITE 3: JSON → single blueprint.xlsx → JSON (using actual transform functions)
+describe('Roundtrip Tests: JSON → blueprint.xlsx → JSON', () => {
+  const orderedJsonFiles = [
+    'blueprint_task_products.json',
+    'blueprint_tasks.json',
+    'blueprint_services.json'
+  ].filter(f => jsonFiles.includes(f));
+
+  if (orderedJsonFiles.length === 0) {
+    it('No JSON files found in input_jsons/', () => {
+      expect(true).toBe(true);
+    });
+  } else {
+    test('all blueprints in one workbook', async () => {
+      // Step 1: Transform all files into one workbook (JSON → XLSX)
+      const filePaths = orderedJsonFiles.map(f => path.join(inputJsonsDir, f));
+      await transform_from_json(filePaths, false, { singleWorkbook: true });
+      
+      const workbookPath = path.join(jsonOutputsDir, 'blueprint.xlsx');
+      expect(fs.existsSync(workbookPath)).toBe(true);
+      
+      // Step 2: Copy the workbook and read it back by sheet name (XLSX → JSON)
+      const tempWorkbookDir = path.join(__dirname, '../test_temp_workbook');
+      if (!fs.existsSync(tempWorkbookDir)) {
+        fs.mkdirSync(tempWorkbookDir, { recursive: true });
+      }
+      const tempWorkbookPath = path.join(tempWorkbookDir, 'blueprint.xlsx');
+      fs.copyFileSync(workbookPath, tempWorkbookPath);
+      
+      await transform_from_table([tempWorkbookPath], false, { workbookMode: true });
+      
+      // Step 3: Compare every blueprint
+      for (const jsonFile of orderedJsonFiles) {
+        const originalJson = JSON.parse(fs.readFileSync(path.join(inputJsonsDir, jsonFile), 'utf-8'));
+        const roundtripJsonPath = path.join(tempWorkbookDir, 'outputs', jsonFile);
+        expect(fs.existsSync(roundtripJsonPath)).toBe(true);
+        
+        const roundtripJson = JSON.parse(fs.readFileSync(roundtripJsonPath, 'utf-8'));
+        expect(normalizeJson(roundtripJson)).toEqual(normalizeJson(originalJson));
+      }
+      
+      // Cleanup temp directory
+      if (fs.existsSync(tempWorkbookDir)) {
+        fs.rmSync(tempWorkbookDir, { recursive: true, force: true });
+      }
+    });
+  }
+});
@@ -0,0 +1,108 @@
+import { assignBlueprint, createBlueprintSet, DEFAULT_BLUEPRINT_FILES } from './blueprints';
+import {
+  BLUEPRINT_SCHEMAS,
+  findMissingDependencies,
+  findSpecificationColumn,
+  findSpecificationSchema,
+  findVocabularyField,
+  getArrayFields,
+  getBlueprintSchema,
+  getBlueprintSchemaOrDefault,
+  getFieldVocabularies,
+  selectBlueprintsToRerun,
+  sortByBlueprintDependencies
+} from './schema';
+
+describe('Blueprint schema', () => {
+  const servicesSchema = getBlueprintSchema('blueprint_services')!;
+
+  test('declares every field it refers to', () => {
+    BLUEPRINT_SCHEMAS.forEach(schema => {
+      const declared = [...schema.arrayFields, ...Object.keys(schema.vocabularies), ...schema.specificationColumns.map(spec => spec.column)];
+      expect(schema.fields).toEqual(expect.arrayContaining([schema.keyField, ...declared]));
+      expect(BLUEPRINT_SCHEMAS.map(other => other.name)).toEqual(expect.arrayContaining(schema.dependsOn));
+    });
+  });
+
+  test('merges array fields and vocabularies across blueprint types unless one is named', () => {
+    expect(getArrayFields('blueprint_task_products')).toEqual(['enhancement-order']);
+    expect(getArrayFields()).toEqual(['enhancement-order', 'inputs', 'outputs', 'responsibility_options']);
+    expect(getFieldVocabularies('blueprint_services')).toEqual({ taskProduct: 'taskProduct', enhancement: 'enhancement' });
+    expect(getFieldVocabularies('notes')).toMatchObject({ inputs: 'taskProduct', 'enhancement-order': 'enhancement' });
+  });
+
+  test('finds specification columns and fields by the vocabularies they reference', () => {
+    const transformationField = findSpecificationColumn('taskProduct', 'task');
+
+    expect(transformationField).toBe('transformation specification (taskProduct:task)');
+    expect(() => findSpecificationColumn('task', 'taskProduct')).toThrow('Schema declares no specification column for task:taskProduct');
+    expect(findSpecificationSchema(transformationField)).toBe(servicesSchema);
+    expect(() => findSpecificationSchema('notes')).toThrow(/no blueprint with the specification column notes/);
+    expect(findVocabularyField(servicesSchema, 'enhancement')).toBe('enhancement');
+    expect(() => findVocabularyField(servicesSchema, 'task')).toThrow('Schema of blueprint_services declares no field for the task vocabulary');
+  });
+
+  test('gives unknown files a schema without key, learning or blueprint set field', () => {
+    expect(getBlueprintSchema('notes')).toBeUndefined();
+    expect(getBlueprintSchemaOrDefault('notes')).toMatchObject({ name: 'notes', keyField: '', learnFields: [], validate: true });
+    expect(getBlueprintSchemaOrDefault('notes').setField).toBeUndefined();
+  });
+
+  test('keeps the records of each blueprint type in its blueprint set field', () => {
+    const blueprints = createBlueprintSet();
+    expect(blueprints).toEqual({ taskProducts: [], tasks: [], services: [] });
+
+    const services = [{ Service: 'Floor Plan' }];
+    assignBlueprint(blueprints, 'blueprint_services', services);
+    assignBlueprint(blueprints, 'notes', [{ note: 'ignored' }]);
+
+    expect(blueprints).toEqual({ taskProducts: [], tasks: [], services });
+    expect(DEFAULT_BLUEPRINT_FILES[1]).toBe('input_jsons/blueprint_tasks.json');
+  });
+});
+
+describe('Blueprint dependencies', () => {
+  const nameOf = (file: string) => file.replace(/^.*\//, '').replace('.json', '');
+
+  test('processes upstream blueprints first, whatever the given order', () => {
+    const files = ['in/blueprint_services.json', 'in/blueprint_tasks.json', 'in/blueprint_task_products.json'];
+
+    expect(sortByBlueprintDependencies(files, nameOf)).toEqual([
+      'in/blueprint_task_products.json',
+      'in/blueprint_tasks.json',
+      'in/blueprint_services.json'
+    ]);
+  });
+
+  test('keeps the given order of independent files', () => {
+    const files = ['notes.json', 'blueprint_tasks.json', 'blueprint_task_products.json', 'other.json'];
+
+    expect(sortByBlueprintDependencies(files, nameOf))
+      .toEqual(['notes.json', 'blueprint_task_products.json', 'blueprint_tasks.json', 'other.json']);
+  });
+
+  test('reports upstream blueprints missing from a run', () => {
+    expect(findMissingDependencies(['blueprint_task_products', 'blueprint_tasks', 'blueprint_services'])).toEqual({});
+    expect(findMissingDependencies(['blueprint_services', 'blueprint_task_products'])).toEqual({
+      blueprint_services: ['blueprint_tasks']
+    });
+  });
+
+  test('accepts upstream blueprints already learned into the options store', () => {
+    const learned = { taskProduct: ['Panos'], 'enhancement-order': ['Blur'] };
+
+    expect(findMissingDependencies(['blueprint_tasks'], learned)).toEqual({});
+    expect(findMissingDependencies(['blueprint_services'], learned)).toEqual({
+      blueprint_services: ['blueprint_tasks']
+    });
+  });
+
+  test('re-runs downstream blueprints of a changed file, with the upstream ones they learn from', () => {
+    const files = ['blueprint_task_products.json', 'blueprint_tasks.json', 'blueprint_services.json', 'notes.json'];
+
+    expect(selectBlueprintsToRerun(files, ['blueprint_tasks.json'], nameOf)).toEqual(files.slice(0, 3));
+    expect(selectBlueprintsToRerun(files, ['notes.json'], nameOf)).toEqual(['notes.json']);
+    expect(selectBlueprintsToRerun(files.slice(1), ['blueprint_tasks.json'], nameOf))
+      .toEqual(['blueprint_tasks.json', 'blueprint_services.json']);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Declarative blueprint schema
+ * Single place that declares the fields of every blueprint type: key field, array fields,
+ * referenced vocabularies, compound specification columns, per-responsibility attributes and learned fields
+ */
+
+/**
+ * Compound specification column (format: "part1: part2", or several pairs separated by ";")
+ */
+export interface SpecificationColumnSchema {
+  column: string;
+  parts: [string, string];
+  normalized: { field: string; keys: [string, string] };
+}
+
+/**
+ * Field of a BlueprintSet holding the records of a blueprint type
+ */
+export type BlueprintSetField = 'taskProducts' | 'tasks' | 'services';
+
+/**
+ * Schema of one blueprint type
+ */
+export interface BlueprintSchema {
+  name: string;
+  setField?: BlueprintSetField;
+  keyField: string;
+  fields: string[];
+  arrayFields: string[];
+  vocabularies: Record<string, string>;
+  specificationColumns: SpecificationColumnSchema[];
+  attributeFields: string[];
+  learnFields: string[];
+  validate: boolean;
+  dependsOn: string[];
+}
+
+/**
+ * Blueprint types in processing order
+ * - setField: where the records are kept when blueprints are loaded together (BlueprintSet)
+ * - vocabularies: field → learned vocabulary its values must belong to
+ * - specificationColumns: parts name the vocabularies of part1 and part2; normalized names the list of
+ *   { keys[0], keys[1] } objects replacing the column in normalized JSON
+ * - attributeFields: optional numbers given per responsibility option as "<field>.<responsibility>"
+ *   columns (e.g. duration.IM-operators), or as a "<field>" column applying to every option
+ * - learnFields: fields whose values are learned into available_options.json
+ * - validate: whether the blueprint is validated against what was learned before it
+ * - dependsOn: blueprints that must be processed first because validation uses what they teach
+ */
+export const BLUEPRINT_SCHEMAS: BlueprintSchema[] = [
+  {
+    name: 'blueprint_task_products',
+    setField: 'taskProducts',
+    keyField: 'taskProduct',
+    fields: ['taskProduct', 'enhancement-order'],
+    arrayFields: ['enhancement-order'],
+    vocabularies: {
+      'taskProduct': 'taskProduct',
+      'enhancement-order': 'enhancement'
+    },
+    specificationColumns: [],
+    attributeFields: [],
+    learnFields: ['taskProduct', 'enhancement-order'],
+    validate: false,
+    dependsOn: []
+  },
+  {
+    name: 'blueprint_tasks',
+    setField: 'tasks',
+    keyField: 'task',
+    fields: ['task', 'inputs', 'outputs', 'enhancement', 'responsibility_options'],
+    arrayFields: ['inputs', 'outputs', 'responsibility_options'],
+    vocabularies: {
+      'task': 'task',
+      'inputs': 'taskProduct',
+      'outputs': 'taskProduct',
+      'enhancement': 'enhancement',
+      'responsibility_options': 'responsibility_options'
+    },
+    specificationColumns: [],
+    attributeFields: ['duration', 'cost'],
+    learnFields: ['enhancement', 'responsibility_options', 'task'],
+    validate: true,
+    dependsOn: ['blueprint_task_products']
+  },
+  {
+    name: 'blueprint_services',
+    setField: 'services',
+    keyField: 'Service',
+    fields: [
+      'Service',
+      'taskProduct',
+      'enhancement',
+      'responsibility specification (Task:Responsibility)',
+      'transformation specification (taskProduct:task)',
+      'enhancement medium specification (enhancement:taskProduct)'
+    ],
+    arrayFields: [],
+    vocabularies: {
+      'taskProduct': 'taskProduct',
+      'enhancement': 'enhancement'
+    },
+    specificationColumns: [
+      {
+        column: 'responsibility specification (Task:Responsibility)',
+        parts: ['task', 'responsibility_options'],
+        normalized: { field: 'responsibilities', keys: ['task', 'responsibility'] }
+      },
+      {
+        column: 'transformation specification (taskProduct:task)',
+        parts: ['taskProduct', 'task'],
+        normalized: { field: 'transformations', keys: ['taskProduct', 'task'] }
+      },
+      {
+        column: 'enhancement medium specification (enhancement:taskProduct)',
+        parts: ['enhancement', 'taskProduct'],
+        normalized: { field: 'enhancementMedia', keys: ['enhancement', 'taskProduct'] }
+      }
+    ],
+    attributeFields: [],
+    learnFields: ['Service'],
+    validate: true,
+    dependsOn: ['blueprint_task_products', 'blueprint_tasks']
+  }
+];
+
+/**
+ * Schema used for files that are not a known blueprint type
+ */
+const DEFAULT_SCHEMA: BlueprintSchema = {
+  name: '',
+  keyField: '',
+  fields: [],
+  arrayFields: [],
+  vocabularies: {},
+  specificationColumns: [],
+  attributeFields: [],
+  learnFields: [],
+  validate: true,
+  dependsOn: []
+};
+
+/**
+ * Get the schema of a blueprint type
+ * @param name - Blueprint base name (e.g. 'blueprint_tasks')
+ * @returns Schema, or undefined for unknown blueprint types
+ */
+export function getBlueprintSchema(name: string): BlueprintSchema | undefined {
+  return BLUEPRINT_SCHEMAS.find(schema => schema.name === name);
+}
+
+/**
+ * Get the schema of a blueprint type, falling back to a schema without learning for unknown files
+ * @param name - Blueprint base name
+ * @returns Schema
+ */
+export function getBlueprintSchemaOrDefault(name: string): BlueprintSchema {
+  return getBlueprintSchema(name) || { ...DEFAULT_SCHEMA, name };
+}
+
+/**
+ * Get array fields, for one blueprint type or across all of them
+ * @param name - Optional blueprint base name
+ * @returns Array field names
+ */
+export function getArrayFields(name?: string): string[] {
+  const schemas = selectSchemas(name);
+  return [...new Set(schemas.flatMap(schema => schema.arrayFields))];
+}
+
+/**
+ * Get field → vocabulary mappings, for one blueprint type or merged across all of them
+ * @param name - Optional blueprint base name
+ * @returns Record mapping field names to vocabulary names
+ */
+export function getFieldVocabularies(name?: string): Record<string, string> {
+  const vocabularies: Record<string, string> = {};
+  selectSchemas(name).forEach(schema => Object.assign(vocabularies, schema.vocabularies));
+  return vocabularies;
+}
+
+/**
+ * Get compound specification columns, for one blueprint type or across all of them
+ * @param name - Optional blueprint base name
+ * @returns Specification column schemas
+ */
+export function getSpecificationColumns(name?: string): SpecificationColumnSchema[] {
+  return selectSchemas(name).flatMap(schema => schema.specificationColumns);
+}
+
+/**
+ * Get per-responsibility attribute fields, for one blueprint type or across all of them
+ * @param name - Optional blueprint base name
+ * @returns Attribute field names (e.g. 'duration')
+ */
+export function getAttributeFields(name?: string): string[] {
+  return [...new Set(selectSchemas(name).flatMap(schema => schema.attributeFields))];
+}
+
+/**
+ * Find the specification column whose parts reference the given vocabularies
+ * @param firstPart - Vocabulary of part1 (e.g. 'task')
+ * @param secondPart - Vocabulary of part2 (e.g. 'responsibility_options')
+ * @returns Column name
+ * @throws Error if the schema declares no such column
+ */
+export function findSpecificationColumn(firstPart: string, secondPart: string): string {
+  const spec = getSpecificationColumns().find(s => s.parts[0] === firstPart && s.parts[1] === secondPart);
+  if (!spec) {
+    throw new Error(`Schema declares no specification column for ${firstPart}:${secondPart}`);
+  }
+  return spec.column;
+}
+
+/**
+ * Find the blueprint type declaring a specification column
+ * @param column - Specification column name
+ * @returns Schema
+ * @throws Error if no schema declares the column
+ */
+export function findSpecificationSchema(column: string): BlueprintSchema {
+  const schema = BLUEPRINT_SCHEMAS.find(s => s.specificationColumns.some(spec => spec.column === column));
+  if (!schema) {
+    throw new Error(`Schema declares no blueprint with the specification column ${column}`);
+  }
+  return schema;
+}
+
+/**
+ * Find the field of a blueprint type whose values belong to a vocabulary
+ * @param schema - Schema of the blueprint type
+ * @param vocabulary - Vocabulary name (e.g. 'taskProduct')
+ * @returns Field name
+ * @throws Error if the schema declares no such field
+ */
+export function findVocabularyField(schema: BlueprintSchema, vocabulary: string): string {
+  const field = Object.keys(schema.vocabularies).find(f => schema.vocabularies[f] === vocabulary);
+  if (!field) {
+    throw new Error(`Schema of ${schema.name} declares no field for the ${vocabulary} vocabulary`);
+  }
+  return field;
+}
+
+/**
+ * Sort items into an order in which every blueprint comes after the blueprints it depends on
+ * The sort is stable: items without a dependency between them keep their relative order
+ * @param items - Items to sort (e.g. file paths)
+ * @param nameOf - Blueprint base name of an item
+ * @returns Sorted copy of items
+ */
+export function sortByBlueprintDependencies<T>(items: T[], nameOf: (item: T) => string): T[] {
+  const sorted: T[] = [];
+  const visited = new Set<T>();
+
+  const visit = (item: T) => {
+    if (visited.has(item)) return;
+    visited.add(item);
+    const dependencies = getBlueprintSchemaOrDefault(nameOf(item)).dependsOn;
+    items.filter(other => dependencies.includes(nameOf(other))).forEach(visit);
+    sorted.push(item);
+  };
+
+  items.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Find blueprints whose upstream blueprints are missing from a set of blueprints
+ * An upstream blueprint that is not part of the run is not missing if everything it
+ * teaches is already in the options store
+ * @param names - Blueprint base names taking part in a run
+ * @param learnedOptions - Options already in the store (empty when the store is rebuilt)
+ * @returns Record mapping each blueprint with missing dependencies to the missing blueprints
+ */
+export function findMissingDependencies(
+  names: string[],
+  learnedOptions: Record<string, any> = {}
+): Record<string, string[]> {
+  const isLearned = (dependency: string) =>
+    getBlueprintSchemaOrDefault(dependency).learnFields.every(field => learnedOptions[field] !== undefined);
+
+  const missing: Record<string, string[]> = {};
+  [...new Set(names)].forEach(name => {
+    const absent = getBlueprintSchemaOrDefault(name).dependsOn
+      .filter(dependency => !names.includes(dependency) && !isLearned(dependency));
+    if (absent.length > 0) {
+      missing[name] = absent;
+    }
+  });
+  return missing;
+}
+
+/**
+ * Select the items to process again after some of them changed
+ * Blueprints downstream of a changed one are re-validated against what it now teaches, and the
+ * upstream blueprints of everything selected are included because learning starts from them
+ * @param items - All items of a run (e.g. watched file paths)
+ * @param changed - Items that changed
+ * @param nameOf - Blueprint base name of an item
+ * @returns Selected items, in the order of items
+ */
+export function selectBlueprintsToRerun<T>(items: T[], changed: T[], nameOf: (item: T) => string): T[] {
+  const dependsOn = (item: T, other: T) => getBlueprintSchemaOrDefault(nameOf(item)).dependsOn.includes(nameOf(other));
+  const selected = new Set<T>();
+
+  const addDownstream = (item: T) => {
+    if (selected.has(item)) return;
+    selected.add(item);
+    items.filter(other => dependsOn(other, item)).forEach(addDownstream);
+  };
+  changed.filter(item => items.includes(item)).forEach(addDownstream);
+
+  const upstream = new Set<T>();
+  const addUpstream = (item: T) => {
+    items.filter(other => dependsOn(item, other) && !upstream.has(other)).forEach(other => {
+      upstream.add(other);
+      addUpstream(other);
+    });
+  };
+  [...selected].forEach(addUpstream);
+
+  return items.filter(item => selected.has(item) || upstream.has(item));
+}
+
+/**
+ * Select the schema of one blueprint type, or all schemas for unknown / unspecified types
+ */
+function selectSchemas(name?: string): BlueprintSchema[] {
+  const schema = name ? getBlueprintSchema(name) : undefined;
+  return schema ? [schema] : BLUEPRINT_SCHEMAS;
+}
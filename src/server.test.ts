@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, handleRequest } from './server';
+import { writeExcelData } from './utils';
+import { ServeOptions } from './types';
+
+const services = [
+  { Service: 'Pano Blurring', taskProduct: 'Panos', enhancement: 'Blur' },
+  { Service: 'Floorplan', taskProduct: 'Floorplann', enhancement: '' }
+];
+const store = {
+  taskProduct: ['Panos', 'Floorplan'],
+  enhancement: ['Blur'],
+  service_specifications: { 'Pano Blurring': { taskProduct: 'Panos', enhancement: 'Blur' } }
+};
+
+const post = (url: string, body: string | Buffer, options: ServeOptions) =>
+  handleRequest('POST', url, Buffer.from(body), options);
+const json = (reply: { body: string | Buffer }) => JSON.parse(reply.body.toString());
+
+describe('HTTP server', () => {
+  let tempDir: string;
+  let options: ServeOptions;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-test-'));
+    options = { optionsStore: { filePath: path.join(tempDir, 'options.json'), learn: 'off' } };
+    fs.writeFileSync(options.optionsStore.filePath, JSON.stringify(store));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('validates a JSON upload against the options store with suggestions', async () => {
+    const reply = await post('/validate?blueprint=blueprint_services', JSON.stringify(services), options);
+
+    expect(reply.status).toBe(200);
+    expect(json(reply)).toEqual({
+      blueprint: 'blueprint_services',
+      sourceType: 'JSON',
+      records: 2,
+      valid: false,
+      errors: [{ row: 2, field: 'taskProduct', value: 'Floorplann', validOptions: ['Panos', 'Floorplan'], suggestions: ['Floorplan'] }],
+      warnings: []
+    });
+    expect(JSON.parse(fs.readFileSync(options.optionsStore.filePath, 'utf-8'))).toEqual(store);
+  });
+
+  test('validates services against the task graph of the configured blueprints', async () => {
+    const tasks = [
+      { task: 'Pano-Generation', inputs: [], outputs: ['Panos'], enhancement: '', responsibility_options: ['auto'] },
+      { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto'] },
+      { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], enhancement: '', responsibility_options: ['IM-operators'] }
+    ];
+    const tasksFile = path.join(tempDir, 'blueprint_tasks.json');
+    fs.writeFileSync(tasksFile, JSON.stringify(tasks));
+    const inconsistent = [{
+      Service: 'Pano Blurring', taskProduct: 'Panos', enhancement: 'Blur',
+      'responsibility specification (Task:Responsibility)': 'floorplan-building: IM-operators'
+    }];
+
+    const reply = await post('/validate?blueprint=blueprint_services', JSON.stringify(inconsistent), { ...options, blueprints: [tasksFile] });
+
+    expect(json(reply)).toMatchObject({
+      valid: false,
+      errors: [{
+        row: 1,
+        field: 'responsibility specification (Task:Responsibility) (service consistency)',
+        value: '"floorplan-building" outputs Floorplan, not "Panos" or anything it is made from'
+      }]
+    });
+  });
+
+  test('names the other rows of duplicated keys, numbered like the row', async () => {
+    const duplicated = [services[0], { ...services[1], taskProduct: 'Floorplan' }, { ...services[0], enhancement: '' }];
+    const duplicateErrors = (reply: { body: string | Buffer }) =>
+      json(reply).errors.map((error: any) => ({ row: error.row, kind: error.kind, otherRows: error.otherRows }));
+
+    const fromJson = await post('/validate?blueprint=blueprint_services', JSON.stringify(duplicated), options);
+    expect(duplicateErrors(fromJson)).toEqual([{ row: 1, kind: 'duplicate', otherRows: [3] }, { row: 3, kind: 'duplicate', otherRows: [1] }]);
+    expect(json(fromJson).errors[0].value).toBe('"Pano Blurring" is defined 2 times (differing fields: enhancement)');
+
+    const workbook = await writeExcelData(duplicated, { sheetName: 'blueprint_services' });
+    const fromXlsx = await post('/validate', Buffer.from(await workbook.xlsx.writeBuffer()), options);
+    expect(duplicateErrors(fromXlsx)).toEqual([{ row: 2, kind: 'duplicate', otherRows: [4] }, { row: 4, kind: 'duplicate', otherRows: [2] }]);
+  });
+
+  test('converts JSON to XLSX and back, detecting the blueprint from its fields', async () => {
+    const converted = await post('/convert', JSON.stringify(services), options);
+    expect(converted.status).toBe(200);
+    expect(converted.headers['Content-Disposition']).toBe('attachment; filename="blueprint_services.xlsx"');
+
+    const validated = await post('/validate', converted.body, options);
+    expect(json(validated)).toMatchObject({ blueprint: 'blueprint_services', sourceType: 'XLSX', errors: [{ row: 3, field: 'taskProduct' }] });
+
+    const back = await post('/convert?to=json', converted.body, options);
+    expect(json(back)).toEqual(services);
+  });
+
+  test('accepts and returns normalized JSON specifications', async () => {
+    const normalized = [{ Service: 'Pano Blurring', taskProduct: 'Panos', enhancementMedia: [{ enhancement: 'Blur', taskProduct: 'Panos' }] }];
+    const converted = await post('/convert?blueprint=blueprint_services', JSON.stringify(normalized), options);
+
+    const back = await post('/convert?to=json&normalized=true', converted.body, options);
+    expect(json(back)).toEqual(normalized);
+
+    const incomplete = [{ ...normalized[0], enhancementMedia: [{ enhancement: 'Blur' }] }];
+    const validated = await post('/validate?blueprint=blueprint_services', JSON.stringify(incomplete), options);
+    expect(json(validated).errors).toEqual([expect.objectContaining({
+      field: 'enhancement medium specification (enhancement:taskProduct) (format)',
+      value: 'Blur:'
+    })]);
+  });
+
+  test('lists vocabularies and service specifications', async () => {
+    expect(json(await handleRequest('GET', '/options', Buffer.alloc(0), options)))
+      .toEqual({ taskProduct: ['Panos', 'Floorplan'], enhancement: ['Blur'] });
+    expect(json(await handleRequest('GET', '/options/enhancement', Buffer.alloc(0), options))).toEqual(['Blur']);
+    expect(json(await handleRequest('GET', '/service-specifications/Pano%20Blurring', Buffer.alloc(0), options)))
+      .toEqual({ taskProduct: 'Panos', enhancement: 'Blur' });
+    expect((await handleRequest('GET', '/service-specifications/Unknown', Buffer.alloc(0), options)).status).toBe(404);
+  });
+
+  test('rejects unknown routes, wrong methods and unreadable uploads', async () => {
+    expect((await handleRequest('GET', '/nowhere', Buffer.alloc(0), options)).status).toBe(404);
+    const wrongMethod = await handleRequest('GET', '/validate', Buffer.alloc(0), options);
+    expect(wrongMethod).toMatchObject({ status: 405, headers: { Allow: 'POST' } });
+    expect(json(await post('/validate', 'not json', options))).toEqual({ error: 'Request body is neither an XLSX workbook nor valid JSON' });
+    expect((await post('/convert?to=json', JSON.stringify(services), options)).status).toBe(400);
+
+    fs.rmSync(options.optionsStore.filePath);
+    expect((await handleRequest('GET', '/options', Buffer.alloc(0), options)).status).toBe(503);
+  });
+
+  test('serves requests over HTTP and refuses oversized bodies', async () => {
+    const workbook = await writeExcelData(services, { sheetName: 'blueprint_services' });
+    const upload = Buffer.from(await workbook.xlsx.writeBuffer());
+    const server = createServer({ ...options, maxBodySize: upload.length - 1 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    const request = (method: string, url: string, body?: Buffer) => new Promise<{ status: number, body: string }>((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path: url }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: Buffer.concat(chunks).toString() }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+    try {
+      const listed = await request('GET', '/options/taskProduct');
+      expect(listed).toEqual({ status: 200, body: JSON.stringify(['Panos', 'Floorplan'], null, 2) });
+      const tooLarge = await request('POST', '/validate', upload);
+      expect(JSON.parse(tooLarge.body)).toEqual({ error: `Request body is larger than ${upload.length - 1} bytes` });
+      expect(tooLarge.status).toBe(413);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
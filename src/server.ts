@@ -0,0 +1,306 @@
+/**
+ * Local HTTP server (transform serve): validation and conversion of uploaded blueprints,
+ * and read access to the learned options, all in-process
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { readExcelData, writeExcelData } from './utils';
+import { normalizeSpecifications, denormalizeSpecifications } from './transforms';
+import { ValidationError, findClosestMatches, findNearDuplicateKeys, loadFieldOptions, validateBlueprint } from './validation';
+import { assignBlueprint, loadBlueprintSet } from './blueprints';
+import { detectBlueprintSchema } from './blueprintDiff';
+import { HttpReply, ServeOptions } from './types';
+
+/**
+ * Port the server listens on unless configured otherwise
+ */
+export const DEFAULT_PORT = 3000;
+
+/**
+ * Largest accepted request body (bytes) unless configured otherwise
+ */
+export const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * MIME type of XLSX workbooks
+ */
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Endpoints, listed by GET /
+ */
+const ENDPOINTS = [
+  'POST /validate?blueprint=&sheet=',
+  'POST /convert?to=json|xlsx&blueprint=&sheet=&normalized=',
+  'GET /options',
+  'GET /options/<vocabulary>',
+  'GET /service-specifications',
+  'GET /service-specifications/<service>'
+];
+
+/**
+ * Blueprint records read from a request body
+ */
+interface UploadedBlueprint {
+  records: any[];
+  sourceType: 'JSON' | 'XLSX';
+  sheetName?: string;
+  rowNumbers?: number[];
+}
+
+/**
+ * Build a JSON reply
+ */
+function jsonReply(status: number, body: any): HttpReply {
+  return {
+    status,
+    body: JSON.stringify(body, null, 2),
+    headers: { 'Content-Type': 'application/json; charset=utf-8' }
+  };
+}
+
+/**
+ * Build an error reply
+ */
+function errorReply(status: number, message: string): HttpReply {
+  return jsonReply(status, { error: message });
+}
+
+/**
+ * Read the records of an uploaded blueprint: an XLSX workbook (detected by its ZIP signature) or JSON
+ * Structured specifications of JSON (normalized JSON) become "a: b" columns
+ * @throws Error if the body is neither, or the workbook has no such sheet
+ */
+async function readUploadedBlueprint(body: Buffer, sheet?: string, blueprint?: string): Promise<UploadedBlueprint> {
+  if (body.length === 0) {
+    throw new Error('Request body is empty (expected a JSON or XLSX blueprint)');
+  }
+
+  // XLSX files are ZIP archives
+  if (body.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    const workbook = new ExcelJS.Workbook();
+    // ExcelJS types its input as an ArrayBuffer; copy the body into one of its own
+    await workbook.xlsx.load(new Uint8Array(body).buffer);
+    const worksheet = sheet
+      ? workbook.getWorksheet(sheet)
+      : (blueprint && workbook.getWorksheet(blueprint)) || workbook.worksheets[0];
+    if (!worksheet) {
+      throw new Error(sheet ? `Workbook has no sheet '${sheet}'` : 'Workbook has no worksheet');
+    }
+    const { rows, rowNumbers } = readExcelData(worksheet);
+    return { records: rows, sourceType: 'XLSX', sheetName: worksheet.name, rowNumbers };
+  }
+
+  let data;
+  try {
+    data = JSON.parse(body.toString('utf-8'));
+  } catch (error) {
+    throw new Error('Request body is neither an XLSX workbook nor valid JSON');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('JSON body must be an array of records or a single record');
+  }
+  const records: any[] = Array.isArray(data) ? data : [data];
+  return { records: records.map(record => denormalizeSpecifications(record, blueprint)), sourceType: 'JSON' };
+}
+
+/**
+ * Read the options store
+ * @returns Learned options, or null if the store does not exist yet
+ */
+function readStore(options: ServeOptions): Record<string, any> | null {
+  return fs.existsSync(options.optionsStore.filePath) ? loadFieldOptions(options.optionsStore) : null;
+}
+
+/**
+ * Reply for a missing options store
+ */
+function missingStoreReply(options: ServeOptions): HttpReply {
+  return errorReply(503, `Options store ${path.basename(options.optionsStore.filePath)} not found (run the transform first)`);
+}
+
+/**
+ * POST /validate: validate an uploaded blueprint against the options store (the store is not changed)
+ * Checks that follow the task graph use the blueprint_tasks of the configured blueprint files,
+ * or the upload itself when it is blueprint_tasks, as a transform run does
+ * Rows (and the other rows of duplicate keys) are record numbers for JSON and Excel rows for XLSX;
+ * warnings do not make the blueprint invalid
+ */
+async function handleValidate(body: Buffer, query: URLSearchParams, options: ServeOptions): Promise<HttpReply> {
+  const fieldOptions = readStore(options);
+  if (!fieldOptions) return missingStoreReply(options);
+
+  const upload = await readUploadedBlueprint(body, query.get('sheet') || undefined, query.get('blueprint') || undefined);
+  const schema = detectBlueprintSchema(query.get('blueprint') || upload.sheetName || '', upload.records);
+  const blueprints = await loadBlueprintSet(options.blueprints || []);
+  assignBlueprint(blueprints, schema.name, upload.records);
+  const errors = validateBlueprint(upload.records, fieldOptions, schema.name, blueprints.tasks);
+  const reportedRow = (row: number) => upload.rowNumbers ? upload.rowNumbers[row - 2] || row : row - 1;
+  const reported = (error: ValidationError) => ({
+    row: reportedRow(error.row),
+    field: error.field,
+    value: error.value,
+    validOptions: error.validOptions,
+    suggestions: findClosestMatches(error.value, error.validOptions, 3),
+    ...(error.kind ? { kind: error.kind } : {}),
+    ...(error.otherRows ? { otherRows: error.otherRows.map(reportedRow) } : {})
+  });
+
+  return jsonReply(200, {
+    blueprint: schema.name,
+    sourceType: upload.sourceType,
+    records: upload.records.length,
+    valid: errors.length === 0,
+    errors: errors.map(reported),
+    warnings: findNearDuplicateKeys(upload.records, schema.name).map(reported)
+  });
+}
+
+/**
+ * POST /convert: convert an uploaded blueprint to the other format (or the one given by ?to=)
+ * JSON output is normalized JSON with ?normalized=true
+ */
+async function handleConvert(body: Buffer, query: URLSearchParams): Promise<HttpReply> {
+  const upload = await readUploadedBlueprint(body, query.get('sheet') || undefined, query.get('blueprint') || undefined);
+  const target = query.get('to') || (upload.sourceType === 'JSON' ? 'xlsx' : 'json');
+  if (target !== 'json' && target !== 'xlsx') {
+    return errorReply(400, `Unknown target format '${target}' (expected json or xlsx)`);
+  }
+  if (target === upload.sourceType.toLowerCase()) {
+    return errorReply(400, `Body is already ${upload.sourceType}`);
+  }
+
+  const schema = detectBlueprintSchema(query.get('blueprint') || upload.sheetName || '', upload.records);
+  if (target === 'json') {
+    const normalized = ['true', '1'].includes(query.get('normalized') || '');
+    return jsonReply(200, normalized ? upload.records.map(record => normalizeSpecifications(record, schema.name)) : upload.records);
+  }
+
+  const workbook = await writeExcelData(upload.records, { sheetName: schema.name.substring(0, 31), columnWidth: 40, boldHeaders: true });
+  return {
+    status: 200,
+    body: Buffer.from(await workbook.xlsx.writeBuffer()),
+    headers: {
+      'Content-Type': XLSX_CONTENT_TYPE,
+      'Content-Disposition': `attachment; filename="${schema.name}.xlsx"`
+    }
+  };
+}
+
+/**
+ * GET /options[/<vocabulary>]: the learned vocabularies (list-valued options)
+ */
+function handleOptions(name: string | undefined, options: ServeOptions): HttpReply {
+  const store = readStore(options);
+  if (!store) return missingStoreReply(options);
+
+  const vocabularies: Record<string, string[]> = {};
+  Object.keys(store).filter(key => Array.isArray(store[key])).forEach(key => {
+    vocabularies[key] = store[key];
+  });
+
+  if (name === undefined) {
+    return jsonReply(200, vocabularies);
+  }
+  return vocabularies[name]
+    ? jsonReply(200, vocabularies[name])
+    : errorReply(404, `Unknown vocabulary '${name}' (expected one of ${Object.keys(vocabularies).join(', ')})`);
+}
+
+/**
+ * GET /service-specifications[/<service>]: the learned service specifications
+ */
+function handleServiceSpecifications(service: string | undefined, options: ServeOptions): HttpReply {
+  const store = readStore(options);
+  if (!store) return missingStoreReply(options);
+
+  const specifications: Record<string, any> = store['service_specifications'] || {};
+  if (service === undefined) {
+    return jsonReply(200, specifications);
+  }
+  return specifications[service]
+    ? jsonReply(200, specifications[service])
+    : errorReply(404, `Unknown service '${service}'`);
+}
+
+/**
+ * Routes by first path segment; named routes also accept one more segment (e.g. /options/task)
+ */
+const ROUTES: Record<string, {
+  method: 'GET' | 'POST';
+  named: boolean;
+  handle: (name: string | undefined, body: Buffer, query: URLSearchParams, options: ServeOptions) => HttpReply | Promise<HttpReply>;
+}> = {
+  '': { method: 'GET', named: false, handle: () => jsonReply(200, { endpoints: ENDPOINTS }) },
+  'validate': { method: 'POST', named: false, handle: (name, body, query, options) => handleValidate(body, query, options) },
+  'convert': { method: 'POST', named: false, handle: (name, body, query) => handleConvert(body, query) },
+  'options': { method: 'GET', named: true, handle: (name, body, query, options) => handleOptions(name, options) },
+  'service-specifications': { method: 'GET', named: true, handle: (name, body, query, options) => handleServiceSpecifications(name, options) }
+};
+
+/**
+ * Answer one request
+ * Invalid uploads are answered with 400; unexpected failures are left to the caller
+ * @param method - HTTP method
+ * @param url - Request URL (path and query)
+ * @param body - Request body
+ * @param options - Server options
+ * @returns Reply
+ */
+export async function handleRequest(method: string, url: string, body: Buffer, options: ServeOptions): Promise<HttpReply> {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  const [resource = '', name, ...rest] = pathname.split('/').filter(part => part !== '').map(decodeURIComponent);
+
+  const route = Object.prototype.hasOwnProperty.call(ROUTES, resource) ? ROUTES[resource] : undefined;
+  if (!route || rest.length > 0 || (name !== undefined && !route.named)) {
+    return errorReply(404, `Not found: ${pathname} (see GET /)`);
+  }
+  if (method !== route.method) {
+    const reply = errorReply(405, `Use ${route.method} ${pathname}`);
+    return { ...reply, headers: { ...reply.headers, Allow: route.method } };
+  }
+
+  try {
+    return await route.handle(name, body, searchParams, options);
+  } catch (error) {
+    return errorReply(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Create the HTTP server (not yet listening)
+ * @param options - Server options
+ * @returns Server
+ */
+export function createServer(options: ServeOptions): http.Server {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+
+  return http.createServer((request, response) => {
+    const send = (reply: HttpReply) => {
+      response.writeHead(reply.status, reply.headers);
+      response.end(reply.body);
+    };
+
+    // Oversized bodies are drained without being kept, then refused
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBodySize) {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => {
+      if (size > maxBodySize) {
+        send(errorReply(413, `Request body is larger than ${maxBodySize} bytes`));
+        return;
+      }
+      handleRequest(request.method || 'GET', request.url || '/', Buffer.concat(chunks), options)
+        .then(send)
+        .catch(error => send(errorReply(500, error instanceof Error ? error.message : String(error))));
+    });
+  });
+}
@@ -0,0 +1,121 @@
+import ExcelJS from 'exceljs';
+import { getBlueprintSchema } from './schema';
+import { addSyncMetadata, getSyncSheetName, readSyncMetadata, syncRecords } from './sync';
+import { flattenObject, unflattenObject } from './transforms';
+
+const tasksSchema = getBlueprintSchema('blueprint_tasks')!;
+
+const tasks = [
+  { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur', responsibility_options: ['auto'], notes: 'keep' },
+  { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], enhancement: null, responsibility_options: ['auto'] },
+  { task: 'Elevation-building', inputs: ['geometry-scaffold'], outputs: ['Elevation'], enhancement: '', responsibility_options: ['auto'] }
+];
+const content = JSON.stringify(tasks, null, 2);
+
+/**
+ * Generate a workbook the way --sync-metadata does and read it back as sync would
+ */
+function generate(records: any[] = tasks, sourceContent: string = content) {
+  const workbook = new ExcelJS.Workbook();
+  addSyncMetadata(workbook, 'blueprint_tasks', records, 'task', sourceContent);
+  const metadata = readSyncMetadata(workbook, 'blueprint_tasks')!;
+  const columns = metadata.columns;
+  // Rows as read back from the sheet: flattened cells, then unflattened
+  const rows = records.map(record => unflattenObject(flattenObject(record)));
+  return { workbook, metadata, columns, rows };
+}
+
+describe('Workbook sync', () => {
+  test('stores the source hash, columns and record hashes in a hidden sheet', () => {
+    const { workbook, metadata } = generate();
+
+    expect(workbook.getWorksheet(getSyncSheetName('blueprint_tasks'))!.state).toBe('hidden');
+    expect(metadata.columns).toEqual(['task', 'inputs', 'outputs', 'enhancement', 'responsibility_options', 'notes']);
+    expect(Object.keys(metadata.recordHashes)).toEqual(tasks.map(task => task.task));
+    expect(readSyncMetadata(new ExcelJS.Workbook(), 'blueprint_tasks')).toBeNull();
+  });
+
+  test('an untouched workbook changes nothing', () => {
+    const { metadata, columns, rows } = generate();
+
+    const result = syncRecords(tasks, content, rows, columns, metadata, tasksSchema);
+
+    expect(result).toMatchObject({ sourceChanged: false, added: [], removed: [], changed: [], conflicts: [] });
+    expect(result.records).toEqual(tasks);
+  });
+
+  test('applies workbook edits, keeping record order and fields the sheet does not carry', () => {
+    const { metadata, rows } = generate();
+    const sheetColumns = ['task', 'inputs', 'outputs', 'enhancement', 'responsibility_options'];
+    const edited = [
+      { ...rows[0], responsibility_options: ['auto', 'client'] },
+      { task: 'Dollhouse-building', inputs: ['geometry-scaffold'], outputs: ['Dollhouse'], enhancement: '', responsibility_options: ['auto'] },
+      rows[1]
+    ];
+
+    const result = syncRecords(tasks, content, edited, sheetColumns, metadata, tasksSchema);
+
+    expect(result.changed).toEqual([{ key: 'Panos-Blurring', fields: ['responsibility_options'] }]);
+    expect(result.removed).toEqual(['Elevation-building']);
+    expect(result.added).toEqual(['Dollhouse-building']);
+    expect(result.conflicts).toEqual([]);
+    expect(result.records.map(record => record.task)).toEqual(['Panos-Blurring', 'floorplan-building', 'Dollhouse-building']);
+    expect(result.records[0]).toEqual({ ...tasks[0], responsibility_options: ['auto', 'client'] });
+    // Unchanged values keep their JSON spelling
+    expect(result.records[1].enhancement).toBeNull();
+  });
+
+  test('reports a conflict when the JSON changed the same record since the workbook was generated', () => {
+    const { metadata, columns, rows } = generate();
+    const currentTasks = [{ ...tasks[0], outputs: ['Panos', 'Blurred-Panos'] }, tasks[1], { ...tasks[2], enhancement: 'Staging' }];
+    const currentContent = JSON.stringify(currentTasks, null, 2);
+    const edited = [{ ...rows[0], enhancement: 'Staging' }, rows[1], rows[2]];
+
+    const result = syncRecords(currentTasks, currentContent, edited, columns, metadata, tasksSchema);
+
+    expect(result.sourceChanged).toBe(true);
+    expect(result.conflicts).toEqual([
+      { key: 'Panos-Blurring', reason: 'changed in both the workbook and the JSON (outputs, enhancement)' }
+    ]);
+    // The conflicting record keeps its JSON version, the JSON-only change is kept
+    expect(result.records[0]).toEqual(currentTasks[0]);
+    expect(result.records[2].enhancement).toBe('Staging');
+    expect(result.changed).toEqual([]);
+  });
+
+  test('does not drop records changed in the JSON but deleted in the workbook', () => {
+    const { metadata, columns, rows } = generate();
+    const currentTasks = [tasks[0], { ...tasks[1], outputs: ['Floorplan', 'Dollhouse'] }, tasks[2]];
+
+    const result = syncRecords(currentTasks, JSON.stringify(currentTasks), [rows[0], rows[2]], columns, metadata, tasksSchema);
+
+    expect(result.removed).toEqual([]);
+    expect(result.conflicts).toEqual([{ key: 'floorplan-building', reason: 'deleted in the workbook but changed in the JSON' }]);
+    expect(result.records).toEqual(currentTasks);
+  });
+
+  test('writes nested attributes back along their path, keeping the JSON value types', () => {
+    const timed = [
+      { task: 'Pano-Generation', inputs: ['spin_captures'], outputs: ['Panos'], responsibility_options: ['auto', 'IM-operators'], duration: { auto: 5, 'IM-operators': 30 }, cost: 12 }
+    ];
+    const timedContent = JSON.stringify(timed, null, 2);
+    const { metadata, columns } = generate(timed, timedContent);
+    // Cells are read back as text
+    const asCells = (record: any) => unflattenObject(Object.fromEntries(
+      Object.entries(flattenObject(record)).map(([column, value]) => [column, String(value)])
+    ));
+    const edited = [
+      { ...asCells(timed[0]), 'duration.auto': '8', cost: '15' },
+      asCells({ task: 'Pano-Blurring', inputs: ['Panos'], outputs: ['Panos'], responsibility_options: ['auto'], duration: { auto: 2 } })
+    ];
+
+    const result = syncRecords(timed, timedContent, edited, columns, metadata, tasksSchema);
+
+    expect(result.changed).toEqual([{ key: 'Pano-Generation', fields: ['duration.auto', 'cost'] }]);
+    expect(result.records[0]).toEqual({ ...timed[0], duration: { auto: 8, 'IM-operators': 30 }, cost: 15 });
+    expect(timed[0].duration.auto).toBe(5);
+    // Added rows are nested too, as text since there is no JSON value to take the type from
+    expect(result.records[1]).toMatchObject({ task: 'Pano-Blurring', duration: { auto: '2' } });
+    expect(result.records[1]).not.toHaveProperty(['duration.auto']);
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Two-way sync: merges edits made in a generated workbook back into its JSON source
+ * Generated workbooks carry a hidden sheet with hashes of the records they were generated from,
+ * so edits in the workbook can be told apart from changes made to the JSON in the meantime
+ */
+
+import * as crypto from 'crypto';
+import ExcelJS from 'exceljs';
+import { normalizeValue } from './blueprintDiff';
+import { BlueprintSchema } from './schema';
+import { flattenObject } from './transforms';
+import { SyncMetadata, SyncResult } from './types';
+
+/**
+ * Prefix of the hidden sheet holding the sync metadata of a blueprint sheet
+ */
+const SYNC_SHEET_PREFIX = 'sync_';
+
+/**
+ * Key of the metadata row describing the whole source file
+ */
+const SOURCE_ROW_KEY = '*';
+
+/**
+ * Get the name of the sync metadata sheet of a blueprint sheet
+ * @param sheetName - Blueprint sheet name
+ * @returns Metadata sheet name (at most 31 characters, as Excel requires)
+ */
+export function getSyncSheetName(sheetName: string): string {
+  return `${SYNC_SHEET_PREFIX}${sheetName}`.substring(0, 31);
+}
+
+/**
+ * Hash a string (shortened SHA-256)
+ */
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Hash the content of a JSON source file
+ * @param content - File content
+ * @returns Hash
+ */
+export function hashSource(content: string): string {
+  return hash(content);
+}
+
+/**
+ * Values of the given columns of a record, as they appear in the sheet
+ * (JSON records and unflattened XLSX rows give the same values for the same content)
+ */
+function columnValues(record: any, columns: string[]): string[] {
+  const flattened = flattenObject(record);
+  return columns.map(column => String(normalizeValue(flattened[column])));
+}
+
+/**
+ * Hash the given columns of a record, so a JSON record and its XLSX row hash the same
+ * @param record - Record (JSON record or unflattened XLSX row)
+ * @param columns - Columns to include
+ * @returns Hash
+ */
+export function hashRecord(record: any, columns: string[]): string {
+  return hash(JSON.stringify(columnValues(record, columns)));
+}
+
+/**
+ * Columns whose values differ between two records
+ */
+function differingColumns(record: any, other: any, columns: string[]): string[] {
+  const values = columnValues(record, columns);
+  const otherValues = columnValues(other, columns);
+  return columns.filter((_, idx) => values[idx] !== otherValues[idx]);
+}
+
+/**
+ * Add the sync metadata of a blueprint sheet to a workbook (as a hidden sheet)
+ * @param workbook - Workbook holding the blueprint sheet
+ * @param sheetName - Blueprint sheet name
+ * @param records - Records the sheet was generated from
+ * @param keyField - Natural key of the records
+ * @param sourceContent - Content of the JSON source file
+ */
+export function addSyncMetadata(
+  workbook: ExcelJS.Workbook,
+  sheetName: string,
+  records: any[],
+  keyField: string,
+  sourceContent: string
+): void {
+  const columns = [...new Set(records.flatMap(record => Object.keys(flattenObject(record))))];
+  const sheet = workbook.addWorksheet(getSyncSheetName(sheetName), { state: 'hidden' });
+
+  sheet.addRow(['key', 'hash', 'columns']);
+  sheet.addRow([SOURCE_ROW_KEY, hashSource(sourceContent), JSON.stringify(columns)]);
+  records.forEach(record => {
+    const key = String(normalizeValue(record[keyField]));
+    if (key) {
+      sheet.addRow([key, hashRecord(record, columns)]);
+    }
+  });
+}
+
+/**
+ * Read the sync metadata of a blueprint sheet
+ * @param workbook - Edited workbook
+ * @param sheetName - Blueprint sheet name
+ * @returns Metadata, or null if the workbook was generated without it
+ */
+export function readSyncMetadata(workbook: ExcelJS.Workbook, sheetName: string): SyncMetadata | null {
+  const sheet = workbook.getWorksheet(getSyncSheetName(sheetName));
+  if (!sheet) return null;
+
+  const metadata: SyncMetadata = { sourceHash: '', columns: [], recordHashes: {} };
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const key = String(row.getCell(1).value ?? '');
+    const rowHash = String(row.getCell(2).value ?? '');
+    if (key === SOURCE_ROW_KEY) {
+      metadata.sourceHash = rowHash;
+      metadata.columns = JSON.parse(String(row.getCell(3).value || '[]'));
+    } else if (key) {
+      metadata.recordHashes[key] = rowHash;
+    }
+  });
+
+  return metadata;
+}
+
+/**
+ * Convert a sheet cell (read as text) back to the type of the JSON value it replaces
+ * Lists stay lists even when the schema does not declare them as array fields
+ */
+function toOriginalType(original: any, value: any): any {
+  if (typeof value !== 'string') return value;
+  if (Array.isArray(original)) {
+    // Lists of objects are written to the sheet as JSON
+    if (original.some(item => item !== null && typeof item === 'object')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    const numbers = original.length > 0 && original.every(item => typeof item === 'number');
+    return value.split(',').map(item => item.trim()).filter(item => item !== '')
+      .map(item => numbers && Number.isFinite(Number(item)) ? Number(item) : item);
+  }
+  if (typeof original === 'number') {
+    if (value.trim() === '') return null;
+    return Number.isFinite(Number(value)) ? Number(value) : value;
+  }
+  if (typeof original === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Set a sheet column on a record, following the nesting its flattened header stands for
+ * ("duration.auto" sets record.duration.auto); nested objects are copied, not modified
+ */
+function setColumn(record: any, column: string, value: any): void {
+  const path = column in record ? [column] : column.split('.');
+  let target = record;
+  path.slice(0, -1).forEach((key, idx) => {
+    const nested = target[key];
+    if (nested === null || typeof nested !== 'object') {
+      target[key] = /^\d+$/.test(path[idx + 1]) ? [] : {};
+    } else {
+      target[key] = Array.isArray(nested) ? [...nested] : { ...nested };
+    }
+    target = target[key];
+  });
+  const field = path[path.length - 1];
+  target[field] = toOriginalType(target[field], value);
+}
+
+/**
+ * Apply the sheet columns of an edited row onto a JSON record
+ * Fields the sheet does not carry are kept, and unchanged values keep their JSON representation
+ * @returns Names of the changed fields
+ */
+function applyRow(record: any, row: any, columns: string[]): string[] {
+  const changed = differingColumns(record, row, columns);
+  changed.forEach(column => setColumn(record, column, row[column]));
+  return changed;
+}
+
+/**
+ * Build the JSON record of a row added in the sheet, nesting its flattened columns
+ */
+function rowToRecord(row: any): any {
+  const record: any = {};
+  Object.keys(row).forEach(column => setColumn(record, column, row[column]));
+  return record;
+}
+
+/**
+ * Merge the rows of an edited blueprint sheet into the records of its JSON source
+ * Per record (matched by natural key), with "base" the version the workbook was generated from:
+ * - changed only in the sheet: the sheet's values are applied
+ * - changed only in the JSON: the JSON record is kept
+ * - changed in both: reported as a conflict, the JSON record is kept
+ * Records keep their JSON order; rows added in the sheet are appended
+ * @param jsonRecords - Current records of the JSON source
+ * @param sourceContent - Current content of the JSON source file
+ * @param rows - Rows of the edited sheet (unflattened)
+ * @param sheetColumns - Column headers of the edited sheet
+ * @param metadata - Sync metadata of the sheet
+ * @param schema - Schema of the blueprint
+ * @returns Merged records and what was applied
+ */
+export function syncRecords(
+  jsonRecords: any[],
+  sourceContent: string,
+  rows: any[],
+  sheetColumns: string[],
+  metadata: SyncMetadata,
+  schema: BlueprintSchema
+): SyncResult {
+  const result: SyncResult = {
+    records: [],
+    sourceChanged: hashSource(sourceContent) !== metadata.sourceHash,
+    added: [],
+    removed: [],
+    changed: [],
+    conflicts: [],
+    warnings: []
+  };
+  const keyOf = (record: any) => String(normalizeValue(record[schema.keyField]));
+  const baseColumns = metadata.columns;
+  // Columns added to the sheet by the editor are not covered by the base hashes
+  const columns = sheetColumns.filter(column => column);
+  const extraColumns = columns.filter(column => !baseColumns.includes(column));
+
+  const rowsByKey = new Map<string, any>();
+  rows.forEach((row, idx) => {
+    const key = keyOf(row);
+    if (!key) {
+      result.warnings.push(`Sheet row ${idx + 2} has no ${schema.keyField} and was ignored`);
+    } else if (rowsByKey.has(key)) {
+      result.warnings.push(`Sheet has duplicate ${schema.keyField} "${key}", only the first row was used`);
+    } else {
+      rowsByKey.set(key, row);
+    }
+  });
+
+  const jsonKeys = new Set<string>();
+  jsonRecords.forEach(jsonRecord => {
+    const key = keyOf(jsonRecord);
+    if (!key) {
+      result.records.push(jsonRecord);
+      return;
+    }
+    jsonKeys.add(key);
+
+    const base = metadata.recordHashes[key];
+    const row = rowsByKey.get(key);
+    const jsonChanged = base === undefined || hashRecord(jsonRecord, baseColumns) !== base;
+
+    if (!row) {
+      if (base === undefined) {
+        // Added to the JSON after the workbook was generated
+        result.records.push(jsonRecord);
+      } else if (jsonChanged) {
+        result.conflicts.push({ key, reason: 'deleted in the workbook but changed in the JSON' });
+        result.records.push(jsonRecord);
+      } else {
+        result.removed.push(key);
+      }
+      return;
+    }
+
+    const rowChanged = hashRecord(row, baseColumns) !== base ||
+      differingColumns(row, jsonRecord, extraColumns).length > 0;
+    const merged = { ...jsonRecord };
+
+    if (rowChanged && jsonChanged) {
+      // Both sides changed (or both added the key): a conflict unless they made the same edit
+      const differing = differingColumns(row, jsonRecord, columns);
+      if (differing.length > 0) {
+        result.conflicts.push({ key, reason: `changed in both the workbook and the JSON (${differing.join(', ')})` });
+      }
+    } else if (rowChanged && !jsonChanged) {
+      const fields = applyRow(merged, row, columns);
+      if (fields.length > 0) {
+        result.changed.push({ key, fields });
+      }
+    }
+    result.records.push(merged);
+  });
+
+  rowsByKey.forEach((row, key) => {
+    if (jsonKeys.has(key)) return;
+    if (metadata.recordHashes[key] === undefined) {
+      result.records.push(rowToRecord(row));
+      result.added.push(key);
+    } else if (hashRecord(row, baseColumns) !== metadata.recordHashes[key]) {
+      result.conflicts.push({ key, reason: 'changed in the workbook but deleted in the JSON' });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Report the outcome of a sync to console
+ * @param result - Result of syncRecords
+ * @param jsonLabel - Name of the JSON source
+ */
+export function reportSyncResult(result: SyncResult, jsonLabel: string): void {
+  if (result.sourceChanged) {
+    console.log(`⚠️  ${jsonLabel} changed since the workbook was generated, checking for conflicts`);
+  }
+  result.warnings.forEach(warning => console.log(`   ⚠️  ${warning}`));
+
+  result.added.forEach(key => console.log(`   + ${key}`));
+  result.removed.forEach(key => console.log(`   - ${key}`));
+  result.changed.forEach(change => console.log(`   ~ ${change.key}: ${change.fields.join(', ')}`));
+  result.conflicts.forEach(conflict => console.log(`   ❌ ${conflict.key}: ${conflict.reason}`));
+
+  console.log(`📋 ${result.added.length} added, ${result.removed.length} removed, ` +
+    `${result.changed.length} changed, ${result.conflicts.length} conflict(s)`);
+}
@@ -2,6 +2,8 @@
  * Data transformation utilities for converting between nested and flat structures
  */
 
+import { getArrayFields, getSpecificationColumns } from './schema';
+
 /**
  * Flatten nested objects and arrays for Excel display
  * Converts arrays to comma-separated strings
@@ -45,13 +47,12 @@ export function flattenObject(obj: any, prefix: string = ''): any {
 /**
  * Unflatten an object (reverse of flattenObject)
  * Converts comma-separated strings back to arrays
+ * @param obj - Flat object (e.g. an Excel row)
+ * @param arrayFields - Fields that should be arrays (defaults to the array fields of all blueprint schemas)
  */
-export function unflattenObject(obj: any): any {
+export function unflattenObject(obj: any, arrayFields: string[] = getArrayFields()): any {
   const result: any = {};
   
-  // Known array fields that should be arrays
-  const arrayFields = ['inputs', 'outputs', 'responsibility_options', 'enhancement-order'];
-  
   for (const key in obj) {
     if (obj.hasOwnProperty(key)) {
       const value = obj[key];
@@ -76,3 +77,132 @@ export function unflattenObject(obj: any): any {
   return result;
 }
 
+
+/**
+ * Separator between the pairs of a multi-valued specification ("a: b; c: d")
+ */
+export const SPECIFICATION_SEPARATOR = ';';
+
+/**
+ * Split a compound specification value into its pairs, checking each is "part1: part2"
+ */
+function splitSpecification(specValue: any): { text: string, parts: [string, string] | null }[] {
+  if (specValue === undefined || specValue === null || !String(specValue).trim()) {
+    return [];
+  }
+  
+  return String(specValue).split(SPECIFICATION_SEPARATOR).map(segment => {
+    const text = segment.trim();
+    const parts = text.split(':').map(p => p.trim());
+    return { text, parts: parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] as [string, string] : null };
+  });
+}
+
+/**
+ * Parse a compound specification value: one or more "part1: part2" pairs separated by ';'
+ * @param specValue - Raw specification string (e.g. "Geometry-building-spins: IM-operators; Data-Acquisition: client")
+ * @returns Trimmed [part1, part2] pairs ([] if the value is empty), or null if any pair is malformed
+ */
+export function parseSpecification(specValue: any): [string, string][] | null {
+  const pairs = splitSpecification(specValue);
+  return pairs.every(pair => pair.parts) ? pairs.map(pair => pair.parts!) : null;
+}
+
+/**
+ * Find the malformed pairs of a compound specification value: a missing or extra colon,
+ * an empty part, or an empty pair between separators
+ * @param specValue - Raw specification string
+ * @returns Text of each malformed pair ('' for an empty pair)
+ */
+export function findMalformedSpecificationPairs(specValue: any): string[] {
+  return splitSpecification(specValue).filter(pair => !pair.parts).map(pair => pair.text);
+}
+
+/**
+ * Replace the compound specification columns of a record with their structured form (normalized JSON)
+ * e.g. "Geometry-building: auto; Capture: client" → responsibilities: [{ task, responsibility }, ...]
+ * Field order is kept; malformed values stay as the original column so they can still be reported
+ * @param record - Record with specification columns (e.g. a blueprint_services row)
+ * @param blueprintName - Optional blueprint base name (default: columns of every blueprint type)
+ * @returns Normalized copy of the record, or the record itself if it has no specification column
+ */
+export function normalizeSpecifications(record: any, blueprintName?: string): any {
+  const specs = getSpecificationColumns(blueprintName).filter(spec => record && Object.prototype.hasOwnProperty.call(record, spec.column));
+  if (specs.length === 0) return record;
+
+  const normalized: any = {};
+  Object.keys(record).forEach(key => {
+    const spec = specs.find(s => s.column === key);
+    const pairs = spec ? parseSpecification(record[key]) : null;
+    if (!spec || !pairs) {
+      normalized[key] = record[key];
+      return;
+    }
+    const [first, second] = spec.normalized.keys;
+    normalized[spec.normalized.field] = pairs.map(pair => ({ [first]: pair[0], [second]: pair[1] }));
+  });
+  return normalized;
+}
+
+/**
+ * Replace the structured specifications of a normalized record with the "a: b; c: d" columns
+ * the rest of the tool (and XLSX) uses; a record that also has the column keeps it unchanged
+ * @param record - Record, normalized or not
+ * @param blueprintName - Optional blueprint base name (default: columns of every blueprint type)
+ * @returns Copy with specification columns, or the record itself if it has no structured specification
+ */
+export function denormalizeSpecifications(record: any, blueprintName?: string): any {
+  const specs = getSpecificationColumns(blueprintName).filter(spec =>
+    record && Array.isArray(record[spec.normalized.field]) && !Object.prototype.hasOwnProperty.call(record, spec.column)
+  );
+  if (specs.length === 0) return record;
+
+  const denormalized: any = {};
+  Object.keys(record).forEach(key => {
+    const spec = specs.find(s => s.normalized.field === key);
+    if (!spec) {
+      denormalized[key] = record[key];
+      return;
+    }
+    // Missing keys give a malformed pair, reported by validation like a malformed string
+    const [first, second] = spec.normalized.keys;
+    const text = (value: any) => value === undefined || value === null ? '' : String(value).trim();
+    denormalized[spec.column] = record[key]
+      .map((pair: any) => `${text(pair && pair[first])}: ${text(pair && pair[second])}`)
+      .join(`${SPECIFICATION_SEPARATOR} `);
+  });
+  return denormalized;
+}
+
+/**
+ * Read a per-responsibility attribute of a record (e.g. duration)
+ * Accepts "<field>.<responsibility>" columns (or the same as a nested JSON object)
+ * and a plain "<field>" value, which applies to every responsibility
+ * @param record - Record (e.g. a blueprint_tasks row)
+ * @param field - Attribute field name
+ * @returns Non-empty raw values by responsibility ('' for the plain value)
+ */
+export function readAttributeValues(record: any, field: string): Record<string, any> {
+  const flattened = flattenObject(record);
+  const values: Record<string, any> = {};
+  Object.keys(flattened).forEach(key => {
+    const value = flattened[key];
+    if (value === '' || (typeof value === 'string' && value.trim() === '')) return;
+    if (key === field) {
+      values[''] = value;
+    } else if (key.startsWith(`${field}.`)) {
+      values[key.substring(field.length + 1)] = value;
+    }
+  });
+  return values;
+}
+
+/**
+ * Parse an attribute value (numbers, or numeric text from XLSX cells)
+ * @param value - Raw value
+ * @returns Non-negative number, or null if the value is not one
+ */
+export function parseAttributeNumber(value: any): number | null {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
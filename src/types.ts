@@ -2,6 +2,9 @@
  * Type definitions for the transform application
  */
 
+import { ValidationError, ValidationErrorKind } from './validation';
+import { BlueprintSetField } from './schema';
+
 /**
  * Summary of transformation operation
  */
@@ -20,3 +23,378 @@ export interface ExcelWriteOptions {
   boldHeaders?: boolean;
 }
 
+
+/**
+ * Blueprint data loaded for graph-based commands (plan, export, lint, ...), by the setField of each schema
+ */
+export type BlueprintSet = Record<BlueprintSetField, any[]>;
+
+/**
+ * Single task in a service execution plan
+ */
+export interface PlanStep {
+  task: string;
+  inputs: string[];
+  outputs: string[];
+  enhancement: string;
+  responsibility: string | null;
+  responsibilityOptions: string[];
+}
+
+/**
+ * Ordered task chain that produces a service's taskProduct
+ */
+export interface ExecutionPlan {
+  steps: PlanStep[];
+  choices: Record<string, string>;
+  externalInputs: string[];
+}
+
+/**
+ * Result of planning a service: the selected plan and every alternative path
+ */
+export interface ServicePlan {
+  service: string;
+  taskProduct: string;
+  selected: ExecutionPlan | null;
+  alternatives: ExecutionPlan[];
+  warnings: string[];
+  orderViolations: string[];
+}
+
+/**
+ * Duration and cost of one step of a service's execution plan
+ * - dependsOn: earlier steps producing the step's inputs
+ * - finish: earliest finish when independent steps run in parallel
+ */
+export interface StepEstimate {
+  task: string;
+  responsibility: string | null;
+  duration: number | null;
+  cost: number | null;
+  dependsOn: string[];
+  finish: number;
+  critical: boolean;
+}
+
+/**
+ * Turnaround and cost of a service
+ * duration is the length of the critical path; steps without an estimate count as 0 and are listed in missing
+ */
+export interface ServiceEstimate {
+  service: string;
+  taskProduct: string;
+  steps: StepEstimate[];
+  duration: number | null;
+  cost: number | null;
+  criticalPath: string[];
+  missing: string[];
+}
+
+/**
+ * Bipartite task / taskProduct graph
+ * Edges go taskProduct → task (inputs) and task → taskProduct (outputs)
+ */
+export interface BlueprintGraph {
+  taskProducts: string[];
+  tasks: string[];
+  enhancementTasks: string[];
+  edges: { from: string; to: string; kind: 'input' | 'output' }[];
+}
+
+/**
+ * Nodes of a graph to highlight (e.g. the subgraph used by a service)
+ */
+export interface GraphHighlight {
+  taskProducts: Set<string>;
+  tasks: Set<string>;
+}
+
+/**
+ * Problem found by the task graph lint
+ */
+export interface GraphLintIssue {
+  rule: 'unproduced-product' | 'unused-product' | 'unknown-input' | 'unreachable-product' | 'cycle';
+  severity: 'error' | 'warning';
+  subject: string;
+  message: string;
+}
+
+/**
+ * Options of the progressive-learning transforms
+ */
+export interface TransformOptions {
+  outputFormat?: string;
+  singleWorkbook?: boolean;
+  workbookMode?: boolean;
+  dropdowns?: boolean;
+  syncMetadata?: boolean;
+  annotateErrors?: boolean;
+  reportFormat?: string;
+  fix?: boolean;
+  fixDistance?: number;
+  normalizedJson?: boolean;
+  optionsStore?: OptionsStore;
+  watch?: boolean;
+  onEvent?: (event: TransformEvent) => void | Promise<void>;
+}
+
+/**
+ * How a run updates the options store (see LEARN_MODES)
+ */
+export type LearnMode = 'replace' | 'merge' | 'off';
+
+/**
+ * Location of the learned options (available_options.json) and how a run updates it
+ */
+export interface OptionsStore {
+  filePath: string;
+  learn: LearnMode;
+}
+
+/**
+ * Validation outcome of one processed file (or sheet)
+ */
+export interface FileValidationResult {
+  file: string;
+  filePath: string;
+  sheet?: string;
+  sourceType: 'JSON' | 'XLSX' | 'CSV';
+  errors: ValidationError[];
+}
+
+/**
+ * One entry of a machine-readable validation report
+ */
+export interface ValidationReportEntry {
+  file: string;
+  sheet?: string;
+  row: number;
+  line: number;
+  field: string;
+  value: string;
+  validOptions: string[];
+  suggestions: string[];
+  kind?: ValidationErrorKind;
+  otherRows?: number[];
+}
+
+/**
+ * Typo substitution applied by --fix
+ */
+export interface TypoFix {
+  row: number;
+  field: string;
+  column: string;
+  value: string;
+  replacement: string;
+}
+
+/**
+ * Entry of the --fix change log
+ */
+export interface FixLogEntry extends TypoFix {
+  file: string;
+  sheet?: string;
+}
+
+/**
+ * Added and removed values of a learned vocabulary (e.g. taskProduct)
+ */
+export interface VocabularyDiff {
+  name: string;
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Changes to a relationship map (e.g. task_responsibilities)
+ * reordered marks keys whose values are the same but in a different order
+ */
+export interface RelationshipDiff {
+  name: string;
+  addedKeys: Record<string, string[]>;
+  removedKeys: string[];
+  changed: { key: string; added: string[]; removed: string[]; reordered: boolean }[];
+}
+
+/**
+ * Changes to a map of records (e.g. service_specifications), field by field
+ */
+export interface RecordMapDiff {
+  name: string;
+  added: string[];
+  removed: string[];
+  changed: { key: string; field: string; from: any; to: any }[];
+}
+
+/**
+ * Semantic diff of two learned options snapshots
+ */
+export interface OptionsDiff {
+  vocabularies: VocabularyDiff[];
+  relationships: RelationshipDiff[];
+  recordMaps: RecordMapDiff[];
+}
+
+/**
+ * Difference in one field of a record matched by natural key
+ * Array fields are compared as sets and also list the added / removed values
+ */
+export interface BlueprintFieldChange {
+  field: string;
+  from: any;
+  to: any;
+  added?: string[];
+  removed?: string[];
+}
+
+/**
+ * Semantic diff of two versions of a blueprint, with records matched by natural key
+ */
+export interface BlueprintDiff {
+  blueprint: string;
+  keyField: string;
+  added: string[];
+  removed: string[];
+  changed: { key: string; fields: BlueprintFieldChange[] }[];
+  warnings: string[];
+}
+
+/**
+ * Sync metadata stored in a generated workbook: hashes of the records it was generated from
+ */
+export interface SyncMetadata {
+  sourceHash: string;
+  columns: string[];
+  recordHashes: Record<string, string>;
+}
+
+/**
+ * Outcome of merging an edited workbook into its JSON source
+ */
+export interface SyncResult {
+  records: any[];
+  sourceChanged: boolean;
+  added: string[];
+  removed: string[];
+  changed: { key: string; fields: string[] }[];
+  conflicts: { key: string; reason: string }[];
+  warnings: string[];
+}
+
+/**
+ * Outcome of one input of a transform run
+ * - converted: validated, learned from and written
+ * - invalid: failed validation (errors hold the reasons)
+ * - skipped: could not be read as a blueprint (message holds the reason)
+ * - missing: the file does not exist
+ * - error: processing threw (message holds the error)
+ */
+export type FileStatus = 'converted' | 'invalid' | 'skipped' | 'missing' | 'error';
+
+/**
+ * Result of one input (file, workbook sheet or in-memory blueprint) of a transform run
+ * Rows of errors are record rows (record number + 1) for JSON and Excel rows for XLSX
+ */
+export interface FileResult {
+  file: string;
+  blueprint: string;
+  filePath?: string;
+  sheet?: string;
+  sourceType: 'JSON' | 'XLSX' | 'CSV';
+  status: FileStatus;
+  message?: string;
+  records: any[];
+  errors: ValidationError[];
+  warnings: ValidationError[];
+  fixes: TypoFix[];
+  learned: string[];
+  outputPath?: string;
+  outputSheet?: string;
+  fixedPath?: string;
+  annotatedPath?: string;
+}
+
+/**
+ * Relationship mappings learned from blueprint_task_products and blueprint_tasks
+ */
+export interface LearnedRelationships {
+  task_responsibilities: Record<string, string[]>;
+  taskProduct_producers: Record<string, string[]>;
+  taskProduct_enhancements: Record<string, string[]>;
+}
+
+/**
+ * Result of a transform run
+ */
+export interface TransformResult {
+  files: FileResult[];
+  successCount: number;
+  errorCount: number;
+  outputDir?: string;
+  optionsStore: OptionsStore;
+  learnedOptions: Record<string, any>;
+  relationships?: LearnedRelationships;
+  serviceSpecifications?: Record<string, any>;
+  lintIssues: GraphLintIssue[];
+  workbookPath?: string;
+  fixLogPath?: string;
+  reportPath?: string;
+}
+
+/**
+ * Progress event of a transform run, in the order a run emits them
+ */
+export type TransformEvent =
+  | { type: 'start'; inputs: string[] }
+  | { type: 'order'; order: string[] }
+  | { type: 'init'; optionsStore: OptionsStore }
+  | { type: 'warning'; message: string }
+  | { type: 'file'; file: FileResult }
+  | { type: 'relationships'; relationships: LearnedRelationships }
+  | { type: 'serviceSpecifications'; serviceSpecifications: Record<string, any> }
+  | { type: 'workbook'; path: string; sheets: string[] }
+  | { type: 'lint'; issues: GraphLintIssue[] }
+  | { type: 'fixLog'; path: string; count: number }
+  | { type: 'report'; path: string; format: string }
+  | { type: 'done'; result: TransformResult };
+
+/**
+ * Options of the HTTP server (transform serve)
+ */
+export interface ServeOptions {
+  optionsStore: OptionsStore;
+  /** Blueprint files whose blueprint_tasks records /validate follows (task existence, service consistency) */
+  blueprints?: string[];
+  maxBodySize?: number;
+}
+
+/**
+ * Response of the HTTP server to one request
+ */
+export interface HttpReply {
+  status: number;
+  body: string | Buffer;
+  headers: Record<string, string>;
+}
+
+/**
+ * Catalog value a service specification refers to
+ * For compound specifications, vocabulary names the part (e.g. 'task' in a transformation specification)
+ */
+export interface ServiceReference {
+  service: string;
+  field: string;
+  vocabulary: string;
+  value: string;
+}
+
+/**
+ * Answer of a catalog query (transform query), printed as a table or as JSON rows
+ */
+export interface QueryResult {
+  title: string;
+  columns: string[];
+  rows: Record<string, any>[];
+}
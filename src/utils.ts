@@ -69,11 +69,12 @@ export function extractCellText(cellValue: any): string {
 /**
  * Read data from an Excel worksheet
  * @param worksheet - ExcelJS worksheet
- * @returns Object containing headers and data rows
+ * @returns Object containing headers, data rows and the Excel row number of each data row
  */
-export function readExcelData(worksheet: ExcelJS.Worksheet): { headers: string[], rows: any[] } {
+export function readExcelData(worksheet: ExcelJS.Worksheet): { headers: string[], rows: any[], rowNumbers: number[] } {
   const headers: string[] = [];
   const rows: any[] = [];
+  const rowNumbers: number[] = [];
   
   // Get headers from first row
   const headerRow = worksheet.getRow(1);
@@ -99,9 +100,10 @@ export function readExcelData(worksheet: ExcelJS.Worksheet): { headers: string[]
     
     // Unflatten the object to restore arrays
     rows.push(unflattenObject(rowData));
+    rowNumbers.push(rowNumber);
   });
   
-  return { headers, rows };
+  return { headers, rows, rowNumbers };
 }
 
 /**
@@ -137,13 +139,29 @@ export async function writeExcelData(
   options: ExcelWriteOptions
 ): Promise<ExcelJS.Workbook> {
   const workbook = new ExcelJS.Workbook();
+  addExcelSheet(workbook, data, options);
+  return workbook;
+}
+
+/**
+ * Add a worksheet with data to an existing workbook
+ * @param workbook - ExcelJS workbook to add the sheet to
+ * @param data - Array of objects to write
+ * @param options - Excel writing options
+ * @returns The added worksheet
+ */
+export function addExcelSheet(
+  workbook: ExcelJS.Workbook,
+  data: any[],
+  options: ExcelWriteOptions
+): ExcelJS.Worksheet {
   const worksheet = workbook.addWorksheet(options.sheetName);
   
   // Flatten the data
   const flattenedData = data.map(item => flattenObject(item));
   
-  // Get column headers
-  const headers = Object.keys(flattenedData[0] || {});
+  // Get column headers (optional columns may be missing from the first rows)
+  const headers = [...new Set(flattenedData.flatMap(row => Object.keys(row)))];
   
   // Add header row with optional formatting
   worksheet.columns = headers.map(header => ({
@@ -164,7 +182,7 @@ export async function writeExcelData(
     worksheet.addRow(row);
   });
   
-  return workbook;
+  return worksheet;
 }
 
 /**
@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findNearDuplicateKeys,
+  initializeAvailableOptions,
+  loadFieldOptions,
+  updateAvailableOptions,
+  updateAvailableOptionsRelationships,
+  updateAvailableOptionsServiceSpecs,
+  validateData
+} from './validation';
+import { LearnMode, OptionsStore } from './types';
+
+describe('Options store', () => {
+  let tempDir: string;
+  const storeFor = (learn: LearnMode): OptionsStore => ({ filePath: path.join(tempDir, 'options.json'), learn });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'options-store-test-'));
+    fs.writeFileSync(path.join(tempDir, 'options.json'), JSON.stringify({
+      taskProduct: ['Panos'],
+      task_responsibilities: { 'Panos-Blurring': ['IM-operators'] },
+      service_specifications: { 'Pano Blurring': { taskProduct: 'Panos' } }
+    }), 'utf-8');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('replace starts from an empty store', () => {
+    const store = storeFor('replace');
+    initializeAvailableOptions(store);
+    updateAvailableOptions('taskProduct', ['Floorplan'], store);
+
+    expect(loadFieldOptions(store)).toEqual({ taskProduct: ['Floorplan'] });
+  });
+
+  test('merge adds to the existing store', () => {
+    const store = storeFor('merge');
+    initializeAvailableOptions(store);
+    updateAvailableOptions('taskProduct', ['Floorplan'], store);
+    updateAvailableOptionsRelationships({ 'Panos-Blurring': ['client'] }, {}, {}, store);
+    updateAvailableOptionsServiceSpecs({ 'Floorplan': { taskProduct: 'Floorplan' } }, store);
+
+    const options: Record<string, any> = loadFieldOptions(store);
+    expect(options.taskProduct).toEqual(['Floorplan', 'Panos']);
+    expect(options.task_responsibilities).toEqual({ 'Panos-Blurring': ['IM-operators', 'client'] });
+    expect(Object.keys(options.service_specifications)).toEqual(['Pano Blurring', 'Floorplan']);
+  });
+
+  test('off leaves the store untouched', () => {
+    const store = storeFor('off');
+    const before = fs.readFileSync(store.filePath, 'utf-8');
+    initializeAvailableOptions(store);
+    updateAvailableOptions('taskProduct', ['Floorplan'], store);
+    updateAvailableOptionsServiceSpecs({}, store);
+
+    expect(fs.readFileSync(store.filePath, 'utf-8')).toBe(before);
+  });
+
+  test('off needs an existing store', () => {
+    expect(() => initializeAvailableOptions({ filePath: path.join(tempDir, 'missing.json'), learn: 'off' }))
+      .toThrow(/does not exist/);
+  });
+});
+
+describe('Specification fields', () => {
+  const responsibilitySpec = 'responsibility specification (Task:Responsibility)';
+  const fieldOptions: Record<string, any> = {
+    task: ['Geometry-building-spins', 'Data-Acquisition'],
+    task_responsibilities: { 'Geometry-building-spins': ['IM-operators', 'auto'], 'Data-Acquisition': ['IM-scanner', 'client'] }
+  };
+
+  test('validates every pair of a multi-valued specification', () => {
+    const rows = [
+      { Service: 'Floor Plan', [responsibilitySpec]: 'Geometry-building-spins: IM-operators; Data-Acquisition: client' },
+      { Service: 'LiDAR Floor Plan', [responsibilitySpec]: 'Geometry-building-spins: auto; Data-Acquisition: auto' }
+    ];
+
+    expect(validateData(rows, fieldOptions, 'blueprint_services')).toEqual([
+      { row: 3, field: `${responsibilitySpec} (Responsibility part)`, value: 'auto', validOptions: ['IM-scanner', 'client'] }
+    ]);
+  });
+
+  test('reports malformed pairs instead of skipping them', () => {
+    const rows = [
+      { Service: 'A', [responsibilitySpec]: 'Geometry-building-spins IM-operators' },
+      { Service: 'B', [responsibilitySpec]: 'Geometry-building-spins: IM-operators: auto' },
+      { Service: 'C', [responsibilitySpec]: 'Geometry-building-spins: IM-operators;; Data-Acquisition:' }
+    ];
+    const format = { field: `${responsibilitySpec} (format)`, validOptions: ['task: responsibility_options'], kind: 'format' };
+
+    expect(validateData(rows, fieldOptions, 'blueprint_services')).toEqual([
+      { row: 2, ...format, value: 'Geometry-building-spins IM-operators' },
+      { row: 3, ...format, value: 'Geometry-building-spins: IM-operators: auto' },
+      { row: 4, ...format, value: 'Geometry-building-spins: IM-operators;; Data-Acquisition:' },
+      { row: 4, ...format, value: 'Data-Acquisition:' }
+    ]);
+  });
+});
+
+describe('Enhancement order', () => {
+  const mediumSpec = 'enhancement medium specification (enhancement:taskProduct)';
+  const fieldOptions: Record<string, any> = {
+    taskProduct_enhancements: { Panos: ['Photo-enhancement', 'Blur', 'Staging', 'Declutter'] }
+  };
+  const orderErrors = (rows: any[]) =>
+    validateData(rows, fieldOptions, 'blueprint_services').filter(error => error.field.endsWith('(enhancement order)'));
+
+  test('reports a service applying enhancements to a taskProduct out of the declared order', () => {
+    const rows = [
+      { Service: 'Staged Panos', taskProduct: 'Panos', enhancement: 'Staging', [mediumSpec]: 'Photo-enhancement: Panos; Staging: Panos' },
+      { Service: 'Restaged Panos', taskProduct: 'Panos', enhancement: 'Staging', [mediumSpec]: 'Staging: Panos; Photo-enhancement: Panos' }
+    ];
+
+    expect(orderErrors(rows)).toEqual([{
+      row: 3,
+      field: `${mediumSpec} (enhancement order)`,
+      value: '"Staging" is applied to "Panos" before "Photo-enhancement" (enhancement-order: Photo-enhancement → Blur → Staging → Declutter)',
+      validOptions: ['Photo-enhancement: Panos', 'Staging: Panos'],
+      kind: 'enhancement-order'
+    }]);
+  });
+});
+
+describe('Service consistency', () => {
+  const responsibilitySpec = 'responsibility specification (Task:Responsibility)';
+  const transformationSpec = 'transformation specification (taskProduct:task)';
+  const mediumSpec = 'enhancement medium specification (enhancement:taskProduct)';
+  const tasks = [
+    { task: 'Data-Acquisition', inputs: [], outputs: ['spin_captures'], enhancement: '' },
+    { task: 'Pano-Generation', inputs: ['spin_captures'], outputs: ['Panos'], enhancement: '', responsibility_options: ['auto'] },
+    { task: 'Panos-Blurring', inputs: ['Panos'], outputs: ['Panos'], enhancement: 'Blur' },
+    { task: 'Geometry-building-spins', inputs: ['Panos'], outputs: ['geometry-scaffold'], enhancement: '', responsibility_options: ['IM-operators', 'auto'] },
+    { task: 'Geometry-building-roomPlan', inputs: ['roomplan-FP'], outputs: ['geometry-scaffold'], enhancement: '', responsibility_options: ['IM-operators', 'client'] },
+    { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], enhancement: '' },
+    { task: 'Tour-building', inputs: ['Panos'], outputs: ['Walkthrough-tour'], enhancement: '' }
+  ];
+  const fieldOptions: Record<string, any> = {
+    taskProduct_producers: { 'geometry-scaffold': ['Geometry-building-spins', 'Geometry-building-roomPlan'], 'Panos': ['Pano-Generation'] },
+    _tasksData: tasks
+  };
+  const consistencyErrors = (rows: any[]) =>
+    validateData(rows, fieldOptions, 'blueprint_services').filter(error => error.field.endsWith('(service consistency)'));
+
+  test('accepts services whose columns agree', () => {
+    const rows = [
+      {
+        Service: 'Floor Plan', taskProduct: 'Floorplan', enhancement: 'Blur',
+        [responsibilitySpec]: 'Geometry-building-spins: IM-operators; Data-Acquisition: client',
+        [transformationSpec]: 'geometry-scaffold: Geometry-building-spins',
+        [mediumSpec]: 'Blur: Panos'
+      },
+      { Service: 'Blurred Tour', taskProduct: 'Walkthrough-tour', enhancement: 'Blur', [mediumSpec]: '' }
+    ];
+
+    expect(consistencyErrors(rows)).toEqual([]);
+  });
+
+  test('reports an enhancement column contradicting the enhancement medium specification', () => {
+    const rows = [
+      { Service: 'A', taskProduct: 'Panos', enhancement: 'Staging', [mediumSpec]: 'Blur: Panos' },
+      { Service: 'B', taskProduct: 'Panos', enhancement: '', [mediumSpec]: 'Blur: Panos' },
+      { Service: 'C', taskProduct: 'Floorplan', enhancement: 'Blur', [mediumSpec]: 'Blur: Walkthrough-tour' }
+    ];
+
+    expect(consistencyErrors(rows)).toEqual([
+      { row: 2, field: 'enhancement (service consistency)', value: `"Staging" is not applied by ${mediumSpec} "Blur: Panos"`, validOptions: ['Blur'], kind: 'consistency' },
+      { row: 3, field: 'enhancement (service consistency)', value: `No enhancement, but ${mediumSpec} applies Blur`, validOptions: ['Blur'], kind: 'consistency' },
+      {
+        row: 4,
+        field: `${mediumSpec} (service consistency)`,
+        value: '"Blur: Walkthrough-tour" enhances "Walkthrough-tour", which is not "Floorplan" or made into it',
+        validOptions: ['Blur: Floorplan', 'Blur: geometry-scaffold', 'Blur: Panos', 'Blur: roomplan-FP', 'Blur: spin_captures'],
+        kind: 'consistency'
+      }
+    ]);
+  });
+
+  test('requires a responsibility for the task the transformation specification chooses', () => {
+    const rows = [
+      {
+        Service: 'RoomPlan Floor Plan', taskProduct: 'Floorplan',
+        [responsibilitySpec]: 'Data-Acquisition: client',
+        [transformationSpec]: 'geometry-scaffold: Geometry-building-roomPlan'
+      },
+      { Service: 'Floor Plan', taskProduct: 'Floorplan', [transformationSpec]: 'geometry-scaffold: Geometry-building-spins' },
+      // A single responsibility option is implied, as for "HDR Photos" (Panos: Pano-Generation-spins, Photo-Capture: IM-operators)
+      { Service: 'Pano Floor Plan', taskProduct: 'Floorplan', [responsibilitySpec]: 'Geometry-building-spins: auto', [transformationSpec]: 'Panos: Pano-Generation' }
+    ];
+
+    expect(consistencyErrors(rows)).toEqual([
+      {
+        row: 2,
+        field: `${responsibilitySpec} (service consistency)`,
+        value: `${transformationSpec} chooses "Geometry-building-roomPlan", which has no responsibility in ${responsibilitySpec}`,
+        validOptions: ['Geometry-building-roomPlan: IM-operators', 'Geometry-building-roomPlan: client'],
+        kind: 'consistency'
+      },
+      {
+        row: 3,
+        field: `${responsibilitySpec} (service consistency)`,
+        value: `${transformationSpec} chooses "Geometry-building-spins", which has no responsibility in ${responsibilitySpec}`,
+        validOptions: ['Geometry-building-spins: IM-operators', 'Geometry-building-spins: auto'],
+        kind: 'consistency'
+      }
+    ]);
+  });
+
+  test('reports specified tasks contradicting the transformation or outside the service chain', () => {
+    const rows = [
+      {
+        Service: 'RoomPlan Floor Plan', taskProduct: 'Floorplan',
+        [responsibilitySpec]: 'Geometry-building-spins: IM-operators',
+        [transformationSpec]: 'geometry-scaffold: Geometry-building-roomPlan'
+      },
+      { Service: 'Floor Plan', taskProduct: 'Floorplan', [responsibilitySpec]: 'Tour-building: auto' }
+    ];
+
+    expect(consistencyErrors(rows)).toEqual([
+      {
+        row: 2,
+        field: `${responsibilitySpec} (service consistency)`,
+        value: `"Geometry-building-spins" makes "geometry-scaffold", but ${transformationSpec} chooses "Geometry-building-roomPlan"`,
+        validOptions: ['Geometry-building-roomPlan'],
+        kind: 'consistency'
+      },
+      {
+        row: 3,
+        field: `${responsibilitySpec} (service consistency)`,
+        value: '"Tour-building" outputs Walkthrough-tour, not "Floorplan" or anything it is made from',
+        validOptions: ['Data-Acquisition', 'Pano-Generation', 'Panos-Blurring', 'Geometry-building-spins', 'Geometry-building-roomPlan', 'floorplan-building'],
+        kind: 'consistency'
+      }
+    ]);
+  });
+});
+
+describe('Duplicate keys', () => {
+  const tasks = [
+    { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], responsibility_options: ['IM-operators'] },
+    { task: 'Pano-Generation', inputs: ['captures'], outputs: ['Panos'], responsibility_options: ['auto'] },
+    { task: 'floorplan-building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], responsibility_options: ['auto'] },
+    { task: 'Floorplan_building', inputs: ['geometry-scaffold'], outputs: ['Floorplan'], responsibility_options: ['auto'] },
+    { task: 'Pano-Generation', inputs: ['captures'], outputs: ['Panos'], responsibility_options: ['auto'] }
+  ];
+
+  test('reports every row of a duplicated key with the fields that differ and the other rows', () => {
+    const duplicate = { field: 'task (duplicate)', validOptions: [], kind: 'duplicate' };
+
+    expect(validateData(tasks, {}, 'blueprint_tasks')).toEqual([
+      { row: 2, ...duplicate, value: '"floorplan-building" is defined 2 times (differing fields: responsibility_options)', otherRows: [4] },
+      { row: 4, ...duplicate, value: '"floorplan-building" is defined 2 times (differing fields: responsibility_options)', otherRows: [2] },
+      { row: 3, ...duplicate, value: '"Pano-Generation" is defined 2 times (identical definitions)', otherRows: [6] },
+      { row: 6, ...duplicate, value: '"Pano-Generation" is defined 2 times (identical definitions)', otherRows: [3] }
+    ]);
+    expect(validateData([{ Service: 'Floor Plan' }, { Service: ' Floor Plan' }], {}, 'blueprint_services'))
+      .toEqual([expect.objectContaining({ row: 2, field: 'Service (duplicate)' }), expect.objectContaining({ row: 3 })]);
+  });
+
+  test('warns about keys differing only by case or separators', () => {
+    expect(findNearDuplicateKeys(tasks, 'blueprint_tasks')).toEqual([{
+      row: 5,
+      field: 'task (near duplicate)',
+      value: '"Floorplan_building" differs from "floorplan-building" only by case or separators',
+      validOptions: ['floorplan-building'],
+      kind: 'near-duplicate'
+    }]);
+    expect(findNearDuplicateKeys(tasks, 'notes')).toEqual([]);
+  });
+});
@@ -4,6 +4,32 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseSpecification, findMalformedSpecificationPairs, readAttributeValues, parseAttributeNumber } from './transforms';
+import { findEnhancementTask, findUpstreamProducts, indexTasks, toArray } from './graph';
+import {
+  SpecificationColumnSchema,
+  getBlueprintSchemaOrDefault,
+  getFieldVocabularies,
+  getSpecificationColumns,
+  getAttributeFields,
+  findSpecificationColumn,
+  findSpecificationSchema,
+  findVocabularyField
+} from './schema';
+import {
+  findEnhancementOrderViolations,
+  describeEnhancementOrderViolation,
+  sortByEnhancementOrder
+} from './enhancements';
+import { diffRecords, normalizeValue } from './blueprintDiff';
+import { LearnMode, OptionsStore } from './types';
+
+/**
+ * What a validation error checked, when it is not that a value belongs to its vocabulary (validOptions)
+ * - format: a specification pair is not "part1: part2"; number: an attribute is not a non-negative number
+ * - task-existence, enhancement-order, consistency, duplicate, near-duplicate: value describes the problem
+ */
+export type ValidationErrorKind = 'format' | 'number' | 'task-existence' | 'enhancement-order' | 'consistency' | 'duplicate' | 'near-duplicate';
 
 /**
  * Validation error interface
@@ -13,6 +39,9 @@ export interface ValidationError {
   field: string;
   value: string;
   validOptions: string[];
+  kind?: ValidationErrorKind;
+  // Rows of the other definitions of a duplicated key, numbered like row
+  otherRows?: number[];
 }
 
 /**
@@ -54,9 +83,15 @@ function levenshteinDistance(str1: string, str2: string): number {
  * @param value - The value to match
  * @param options - Array of valid options
  * @param maxSuggestions - Maximum number of suggestions to return
+ * @param maxDistance - Maximum edit distance of a match
  * @returns Array of closest matches
  */
-export function findClosestMatches(value: string, options: string[], maxSuggestions: number = 3): string[] {
+export function findClosestMatches(
+  value: string,
+  options: string[],
+  maxSuggestions: number = 3,
+  maxDistance: number = 3
+): string[] {
   const valueLower = value.toLowerCase();
   
   // Calculate distance for each option
@@ -68,60 +103,118 @@ export function findClosestMatches(value: string, options: string[], maxSuggesti
   // Sort by distance
   distances.sort((a, b) => a.distance - b.distance);
   
-  // Return top matches that are reasonably close (distance <= 3)
+  // Return top matches that are reasonably close (distance <= maxDistance)
   return distances
-    .filter(d => d.distance <= 3)
+    .filter(d => d.distance <= maxDistance)
     .slice(0, maxSuggestions)
     .map(d => d.option);
 }
 
 /**
- * Load field options from available_options.json (dynamically built) or field_options.json (static)
+ * Options store used unless configured otherwise: available_options.json next to the package,
+ * rebuilt from scratch on every run
+ */
+export const DEFAULT_OPTIONS_STORE: OptionsStore = {
+  filePath: path.join(__dirname, '../available_options.json'),
+  learn: 'replace'
+};
+
+/**
+ * Supported learn modes
+ * - replace: start from an empty store and learn everything from the run
+ * - merge: keep the existing store and add what the run learns
+ * - off: validate against the existing store without changing it
+ */
+export const LEARN_MODES: LearnMode[] = ['replace', 'merge', 'off'];
+
+/**
+ * Read the options store
+ * @returns Stored options, or an empty object if the file is missing or corrupted
+ */
+function readOptionsFile(store: OptionsStore): Record<string, any> {
+  if (fs.existsSync(store.filePath)) {
+    try {
+      return JSON.parse(fs.readFileSync(store.filePath, 'utf-8'));
+    } catch (error) {
+      // Start fresh if file is corrupted
+      return {};
+    }
+  }
+  return {};
+}
+
+/**
+ * Write the options store
+ */
+function writeOptionsFile(store: OptionsStore, options: Record<string, any>): void {
+  fs.writeFileSync(store.filePath, JSON.stringify(options, null, 2), 'utf-8');
+}
+
+/**
+ * Merge two mappings of key → values, keeping every value once
+ */
+function mergeMappings(
+  existing: Record<string, string[]> | undefined,
+  learned: Record<string, string[]>
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = { ...(existing || {}) };
+  Object.keys(learned).forEach(key => {
+    merged[key] = [...new Set([...(merged[key] || []), ...learned[key]])];
+  });
+  return merged;
+}
+
+/**
+ * Load field options from the options store (dynamically built)
+ * @param store - Options store to read
  * @returns Object mapping field names to allowed values
  */
-export function loadFieldOptions(): Record<string, string[]> {
-  const availableOptionsPath = path.join(__dirname, '../available_options.json');
-  if (fs.existsSync(availableOptionsPath)) {
+export function loadFieldOptions(store: OptionsStore = DEFAULT_OPTIONS_STORE): Record<string, string[]> {
+  const fileName = path.basename(store.filePath);
+  if (fs.existsSync(store.filePath)) {
     try {
-      const content = fs.readFileSync(availableOptionsPath, 'utf-8');
+      const content = fs.readFileSync(store.filePath, 'utf-8');
       return JSON.parse(content);
     } catch (error) {
-      console.warn(`⚠️  Warning: Could not load available_options.json. Validation disabled.`);
+      console.warn(`⚠️  Warning: Could not load ${fileName}. Validation disabled.`);
       return {};
     }
   }
   
-  console.warn(`⚠️  Warning: available_options.json not found. Validation disabled.`);
+  console.warn(`⚠️  Warning: ${fileName} not found. Validation disabled.`);
   return {};
 }
 
 /**
- * Initialize available_options.json with empty object
+ * Prepare the options store for a run
+ * replace empties the store, merge keeps it (creating it if missing), off leaves it untouched
+ * @param store - Options store to prepare
+ * @throws Error if learning is off and the store does not exist
  */
-export function initializeAvailableOptions(): void {
-  const availableOptionsPath = path.join(__dirname, '../available_options.json');
-  fs.writeFileSync(availableOptionsPath, JSON.stringify({}, null, 2), 'utf-8');
+export function initializeAvailableOptions(store: OptionsStore = DEFAULT_OPTIONS_STORE): void {
+  if (store.learn === 'off' && !fs.existsSync(store.filePath)) {
+    throw new Error(`Options store '${store.filePath}' does not exist (learn mode 'off' validates against an existing store)`);
+  }
+  if (store.learn === 'replace') {
+    writeOptionsFile(store, {});
+  } else if (store.learn === 'merge' && !fs.existsSync(store.filePath)) {
+    writeOptionsFile(store, {});
+  }
 }
 
 /**
- * Update available_options.json with learned field values
+ * Update the options store with learned field values (no-op when learning is off)
  * @param fieldName - Name of the field (e.g., 'taskProduct', 'task')
  * @param values - Array of unique values to add
+ * @param store - Options store to update
  */
-export function updateAvailableOptions(fieldName: string, values: string[]): void {
-  const availableOptionsPath = path.join(__dirname, '../available_options.json');
-  let currentOptions: Record<string, string[]> = {};
-  
-  // Load current options
-  if (fs.existsSync(availableOptionsPath)) {
-    try {
-      const content = fs.readFileSync(availableOptionsPath, 'utf-8');
-      currentOptions = JSON.parse(content);
-    } catch (error) {
-      // Start fresh if file is corrupted
-      currentOptions = {};
-    }
-  }
+export function updateAvailableOptions(
+  fieldName: string,
+  values: string[],
+  store: OptionsStore = DEFAULT_OPTIONS_STORE
+): void {
+  if (store.learn === 'off') return;
+  const currentOptions = readOptionsFile(store);
   
   // Update with new values (sorted and unique)
   const existingValues = currentOptions[fieldName] || [];
@@ -129,7 +222,7 @@ export function updateAvailableOptions(fieldName: string, values: string[]): voi
   currentOptions[fieldName] = combinedValues.sort();
   
   // Write back
-  fs.writeFileSync(availableOptionsPath, JSON.stringify(currentOptions, null, 2), 'utf-8');
+  writeOptionsFile(store, currentOptions);
 }
 
 /**
@@ -287,20 +380,7 @@ function validateEnhancementTaskProductSpec(
   // and has this taskProduct as both input and output
   const tasksData = fieldOptions['_tasksData'];
   if (tasksData && Array.isArray(tasksData)) {
-    const matchingTask = tasksData.find((task: any) => {
-      // Check if task has the enhancement
-      if (task.enhancement !== part1) return false;
-      
-      // Check if taskProduct is in inputs
-      const inputs = Array.isArray(task.inputs) ? task.inputs : [];
-      if (!inputs.includes(part2)) return false;
-      
-      // Check if taskProduct is in outputs
-      const outputs = Array.isArray(task.outputs) ? task.outputs : [];
-      if (!outputs.includes(part2)) return false;
-      
-      return true;
-    });
+    const matchingTask = findEnhancementTask(tasksData, part1, part2);
     
     if (!matchingTask) {
       // Find which tasks have this enhancement to suggest
@@ -311,6 +391,7 @@ function validateEnhancementTaskProductSpec(
       errors.push({
         row: rowIndex + 2,
         field: specField + ' (task existence)',
+        kind: 'task-existence',
         value: `No task adds "${part1}" enhancement to "${part2}"`,
         validOptions: tasksWithEnhancement.length > 0 
           ? [`Tasks with ${part1}: ${tasksWithEnhancement.join(', ')}`]
@@ -326,21 +407,12 @@ function validateEnhancementTaskProductSpec(
 function validateSimpleFields(
   rows: any[],
   fieldOptions: Record<string, any>,
-  errors: ValidationError[]
+  errors: ValidationError[],
+  blueprintName?: string
 ): void {
-  // Fields that should be validated
-  const fieldsToValidate = ['inputs', 'outputs', 'enhancement', 'enhancement-order', 'responsibility_options', 'task', 'taskProduct'];
-  
-  // Map fields to their validation source (inputs/outputs should validate against taskProduct)
-  const fieldValidationMap: Record<string, string> = {
-    'inputs': 'taskProduct',
-    'outputs': 'taskProduct',
-    'enhancement': 'enhancement',
-    'enhancement-order': 'enhancement',
-    'responsibility_options': 'responsibility_options',
-    'task': 'task',
-    'taskProduct': 'taskProduct'
-  };
+  // Map fields to their validation source (e.g. inputs/outputs validate against taskProduct)
+  const fieldValidationMap = getFieldVocabularies(blueprintName);
+  const fieldsToValidate = Object.keys(fieldValidationMap);
   
   rows.forEach((row, rowIndex) => {
     for (const field of fieldsToValidate) {
@@ -370,69 +442,435 @@ function validateSimpleFields(
 }
 
 /**
- * Validate specification fields (compound fields with ":" separator)
+ * Signature shared by the compound specification validators
+ */
+type SpecificationValidator = (
+  specValue: string,
+  part1: string,
+  part2: string,
+  specField: string,
+  rowIndex: number,
+  fieldOptions: Record<string, any>,
+  errors: ValidationError[]
+) => void;
+
+/**
+ * Specialized validators keyed by the vocabularies of a specification's parts ("part1:part2")
+ */
+const SPECIFICATION_VALIDATORS: Record<string, SpecificationValidator> = {
+  'task:responsibility_options': validateTaskResponsibilitySpec,
+  'taskProduct:task': validateTaskProductTaskSpec,
+  'enhancement:taskProduct': validateEnhancementTaskProductSpec
+};
+
+/**
+ * Validate each part of a specification against its vocabulary
+ * Used for specification columns without a specialized validator
+ */
+function validateSpecificationParts(
+  part1: string,
+  part2: string,
+  spec: SpecificationColumnSchema,
+  rowIndex: number,
+  fieldOptions: Record<string, any>,
+  errors: ValidationError[]
+): void {
+  [part1, part2].forEach((part, idx) => {
+    const vocabulary = spec.parts[idx];
+    const allowedOptions = fieldOptions[vocabulary];
+    if (allowedOptions && allowedOptions.length > 0 && !allowedOptions.includes(part)) {
+      errors.push({
+        row: rowIndex + 2,
+        field: `${spec.column} (${vocabulary} part)`,
+        value: part,
+        validOptions: allowedOptions
+      });
+    }
+  });
+}
+
+/**
+ * Validate specification fields (compound fields with "part1: part2" pairs separated by ";")
+ * Each pair is validated on its own; malformed pairs are reported as format errors
  */
 function validateSpecificationFields(
   rows: any[],
   fieldOptions: Record<string, any>,
-  errors: ValidationError[]
+  errors: ValidationError[],
+  blueprintName?: string
 ): void {
-  const specificationFields = [
-    'responsibility specification (Task:Responsibility)',
-    'transformation specification (taskProduct:task)',
-    'enhancement medium specification (enhancement:taskProduct)'
-  ];
+  const specificationColumns = getSpecificationColumns(blueprintName);
   
   rows.forEach((row, rowIndex) => {
-    for (const specField of specificationFields) {
+    for (const spec of specificationColumns) {
+      const specField = spec.column;
       if (row[specField] !== undefined && row[specField] !== null && row[specField] !== '') {
         const specValue = String(row[specField]).trim();
-        if (!specValue) continue;
-        
-        // Parse the specification (format: "value1: value2")
-        const parts = specValue.split(':').map(p => p.trim());
-        if (parts.length !== 2) continue;
-        
-        const [part1, part2] = parts;
         
-        // Determine what to validate based on the field name and delegate to specific validator
-        if (specField.includes('Task:Responsibility')) {
-          validateTaskResponsibilitySpec(specValue, part1, part2, specField, rowIndex, fieldOptions, errors);
-        } else if (specField.includes('taskProduct:task')) {
-          validateTaskProductTaskSpec(specValue, part1, part2, specField, rowIndex, fieldOptions, errors);
-        } else if (specField.includes('enhancement:taskProduct')) {
-          validateEnhancementTaskProductSpec(specValue, part1, part2, specField, rowIndex, fieldOptions, errors);
+        // Parse the specification (format: "value1: value2; value3: value4")
+        const pairs = parseSpecification(specValue);
+        if (!pairs) {
+          findMalformedSpecificationPairs(specValue).forEach(pair => {
+            errors.push({
+              row: rowIndex + 2,
+              field: `${specField} (format)`,
+              kind: 'format',
+              value: pair || specValue,
+              validOptions: [`${spec.parts[0]}: ${spec.parts[1]}`]
+            });
+          });
+          continue;
         }
+        
+        // Delegate to the validator registered for the part vocabularies
+        const validator = SPECIFICATION_VALIDATORS[spec.parts.join(':')];
+        pairs.forEach(([part1, part2]) => {
+          if (validator) {
+            validator(`${part1}: ${part2}`, part1, part2, specField, rowIndex, fieldOptions, errors);
+          } else {
+            validateSpecificationParts(part1, part2, spec, rowIndex, fieldOptions, errors);
+          }
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Validate that enhancements applied to the same taskProduct follow its enhancement-order
+ */
+function validateEnhancementOrder(
+  rows: any[],
+  fieldOptions: Record<string, any>,
+  errors: ValidationError[]
+): void {
+  const specField = findSpecificationColumn('enhancement', 'taskProduct');
+  const taskProductEnhancements = fieldOptions['taskProduct_enhancements'];
+  if (!taskProductEnhancements) return;
+  
+  rows.forEach((row, rowIndex) => {
+    // Enhancements applied to each taskProduct, in the order they are written
+    const applied: Record<string, string[]> = {};
+    (parseSpecification(row[specField]) || []).forEach(([enhancement, taskProduct]) => {
+      applied[taskProduct] = [...(applied[taskProduct] || []), enhancement];
+    });
+    
+    Object.keys(applied).forEach(taskProduct => {
+      const enhancementOrder = taskProductEnhancements[taskProduct] || [];
+      findEnhancementOrderViolations(applied[taskProduct], enhancementOrder).forEach(violation => {
+        errors.push({
+          row: rowIndex + 2,
+          field: specField + ' (enhancement order)',
+          kind: 'enhancement-order',
+          value: describeEnhancementOrderViolation(taskProduct, violation, enhancementOrder),
+          validOptions: sortByEnhancementOrder(applied[taskProduct], enhancementOrder)
+            .map(enhancement => `${enhancement}: ${taskProduct}`)
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Validate that the columns of each service agree with each other:
+ * - the enhancement column is one of the enhancements of the enhancement medium specification,
+ *   whose taskProducts are the service's taskProduct or one it is made from
+ * - the task chosen by the transformation specification is the task of the responsibility specification:
+ *   another task making the same taskProduct contradicts it, and no task at all leaves its responsibility open
+ *   (unless it has a single responsibility option, which the planner assigns by itself)
+ * - tasks of both specifications output the service's taskProduct or one it is made from
+ * Graph checks need the blueprint_tasks records (_tasksData); unknown names are left to the vocabulary checks
+ */
+function validateServiceConsistency(
+  rows: any[],
+  fieldOptions: Record<string, any>,
+  errors: ValidationError[]
+): void {
+  const responsibilityField = findSpecificationColumn('task', 'responsibility_options');
+  const transformationField = findSpecificationColumn('taskProduct', 'task');
+  const mediumField = findSpecificationColumn('enhancement', 'taskProduct');
+  const schema = findSpecificationSchema(transformationField);
+  const taskProductField = findVocabularyField(schema, 'taskProduct');
+  const enhancementField = findVocabularyField(schema, 'enhancement');
+  const tasksData: any[] | undefined = Array.isArray(fieldOptions['_tasksData']) ? fieldOptions['_tasksData'] : undefined;
+  const tasksByName = tasksData ? indexTasks(tasksData) : {};
+  const producers: Record<string, string[]> = fieldOptions['taskProduct_producers'] || {};
+  const taskResponsibilities: Record<string, string[]> = fieldOptions['task_responsibilities'] || {};
+  const responsibilityOptionsOf = (task: string) =>
+    taskResponsibilities[task] || (tasksByName[task] ? toArray(tasksByName[task].responsibility_options) : []);
+  
+  rows.forEach((row, rowIndex) => {
+    const taskProduct = String(row[taskProductField] ?? '').trim();
+    const enhancement = String(row[enhancementField] ?? '').trim();
+    const responsibilities = parseSpecification(row[responsibilityField]) || [];
+    const transformations = parseSpecification(row[transformationField]) || [];
+    const media = parseSpecification(row[mediumField]) || [];
+    // An unknown taskProduct is already reported; its chain is not checked
+    const known = tasksData && tasksData.some(taskRow => toArray(taskRow.outputs).includes(taskProduct));
+    const upstream = known ? findUpstreamProducts(tasksData!, taskProduct) : undefined;
+    
+    // Enhancement column ↔ enhancement medium specification
+    const mediumEnhancements = [...new Set(media.map(([mediumEnhancement]) => mediumEnhancement))];
+    if (mediumEnhancements.length > 0 && !mediumEnhancements.includes(enhancement)) {
+      errors.push({
+        row: rowIndex + 2,
+        field: `${enhancementField} (service consistency)`,
+        kind: 'consistency',
+        value: enhancement
+          ? `"${enhancement}" is not applied by ${mediumField} "${row[mediumField]}"`
+          : `No enhancement, but ${mediumField} applies ${mediumEnhancements.join(', ')}`,
+        validOptions: mediumEnhancements
+      });
+    }
+    if (upstream) {
+      media.filter(([, medium]) => !upstream.has(medium)).forEach(([mediumEnhancement, medium]) => {
+        errors.push({
+          row: rowIndex + 2,
+          field: `${mediumField} (service consistency)`,
+          kind: 'consistency',
+          value: `"${mediumEnhancement}: ${medium}" enhances "${medium}", which is not "${taskProduct}" or made into it`,
+          validOptions: [...upstream].map(product => `${mediumEnhancement}: ${product}`)
+        });
+      });
+    }
+    
+    // Responsibility specification ↔ transformation specification
+    transformations.forEach(([transformedProduct, chosenTask]) => {
+      const contradicting = responsibilities
+        .filter(([task]) => task !== chosenTask && (producers[transformedProduct] || []).includes(task));
+      contradicting.forEach(([task]) => {
+        errors.push({
+          row: rowIndex + 2,
+          field: `${responsibilityField} (service consistency)`,
+          kind: 'consistency',
+          value: `"${task}" makes "${transformedProduct}", but ${transformationField} chooses "${chosenTask}"`,
+          validOptions: [chosenTask]
+        });
+      });
+      
+      const options = responsibilityOptionsOf(chosenTask);
+      if (contradicting.length === 0 && options.length > 1 && !responsibilities.some(([task]) => task === chosenTask)) {
+        errors.push({
+          row: rowIndex + 2,
+          field: `${responsibilityField} (service consistency)`,
+          kind: 'consistency',
+          value: `${transformationField} chooses "${chosenTask}", which has no responsibility in ${responsibilityField}`,
+          validOptions: options.map(option => `${chosenTask}: ${option}`)
+        });
       }
+    });
+    
+    // Specified tasks must be part of the service's chain
+    if (upstream) {
+      const specifiedTasks: [string, string][] = [
+        ...transformations.map(([, task]) => [transformationField, task] as [string, string]),
+        ...responsibilities.map(([task]) => [responsibilityField, task] as [string, string])
+      ];
+      specifiedTasks
+        .filter(([, task]) => tasksByName[task] && !toArray(tasksByName[task].outputs).some(output => upstream.has(output)))
+        .forEach(([field, task]) => {
+          errors.push({
+            row: rowIndex + 2,
+            field: `${field} (service consistency)`,
+            kind: 'consistency',
+            value: `"${task}" outputs ${toArray(tasksByName[task].outputs).join(', ') || 'nothing'}, not "${taskProduct}" or anything it is made from`,
+            validOptions: tasksData!
+              .filter(taskRow => taskRow.task && toArray(taskRow.outputs).some(output => upstream.has(output)))
+              .map(taskRow => taskRow.task)
+          });
+        });
     }
   });
 }
 
+/**
+ * Validate per-responsibility attributes (e.g. duration.IM-operators): the responsibility must be
+ * one of the row's responsibility_options and the value a non-negative number
+ */
+function validateAttributeFields(
+  rows: any[],
+  errors: ValidationError[],
+  blueprintName?: string
+): void {
+  const attributeFields = getAttributeFields(blueprintName);
+  
+  rows.forEach((row, rowIndex) => {
+    const responsibilityOptions = toArray(row['responsibility_options']);
+    attributeFields.forEach(field => {
+      const values = readAttributeValues(row, field);
+      Object.keys(values).forEach(responsibility => {
+        const column = responsibility ? `${field}.${responsibility}` : field;
+        if (responsibility && responsibilityOptions.length > 0 && !responsibilityOptions.includes(responsibility)) {
+          errors.push({
+            row: rowIndex + 2,
+            field: `${column} (responsibility)`,
+            value: responsibility,
+            validOptions: responsibilityOptions
+          });
+        }
+        if (parseAttributeNumber(values[responsibility]) === null) {
+          errors.push({
+            row: rowIndex + 2,
+            field: `${column} (number)`,
+            kind: 'number',
+            value: String(values[responsibility]),
+            validOptions: []
+          });
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Spelling of a key that ignores case and separators (e.g. 'floorplan-building' and 'Floorplan_building')
+ */
+function keySpelling(key: string): string {
+  return key.toLowerCase().replace(/[\s_.-]+/g, '');
+}
+
+/**
+ * Group the rows of a blueprint by natural key
+ * @returns Row indexes per key, in row order (rows without a key are left out)
+ */
+function groupRowsByKey(rows: any[], keyField: string): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, rowIndex) => {
+    const key = String(normalizeValue(row[keyField]));
+    if (key === '') return;
+    groups.set(key, [...(groups.get(key) || []), rowIndex]);
+  });
+  return groups;
+}
+
+/**
+ * Find natural keys defined more than once (e.g. a task in two rows of blueprint_tasks)
+ * Relationships and service specifications keep only one definition, so every row of a duplicated key is an error
+ * @param rows - Rows of a blueprint
+ * @param blueprintName - Blueprint type of the rows (blueprints without a key field are not checked)
+ * @returns One error per row of a duplicated key, naming the fields that differ and the other rows defining it
+ */
+export function validateDuplicateKeys(rows: any[], blueprintName?: string): ValidationError[] {
+  const schema = getBlueprintSchemaOrDefault(blueprintName || '');
+  const errors: ValidationError[] = [];
+  if (!schema.keyField) return errors;
+  
+  groupRowsByKey(rows, schema.keyField).forEach((rowIndexes, key) => {
+    if (rowIndexes.length < 2) return;
+    const first = rows[rowIndexes[0]];
+    const differingFields = [...new Set(rowIndexes.slice(1).flatMap(rowIndex =>
+      diffRecords(first, rows[rowIndex], schema).map(change => change.field)
+    ))];
+    rowIndexes.forEach(rowIndex => {
+      errors.push({
+        row: rowIndex + 2,
+        field: `${schema.keyField} (duplicate)`,
+        kind: 'duplicate',
+        value: `"${key}" is defined ${rowIndexes.length} times (${differingFields.length > 0 ? `differing fields: ${differingFields.join(', ')}` : 'identical definitions'})`,
+        validOptions: [],
+        otherRows: rowIndexes.filter(other => other !== rowIndex).map(other => other + 2)
+      });
+    });
+  });
+  
+  return errors;
+}
+
+/**
+ * Find natural keys that differ from an earlier key only by case or separators (likely the same entity)
+ * @param rows - Rows of a blueprint
+ * @param blueprintName - Blueprint type of the rows (blueprints without a key field are not checked)
+ * @returns One warning per later spelling, at its first row, with the earlier spelling as valid option
+ */
+export function findNearDuplicateKeys(rows: any[], blueprintName?: string): ValidationError[] {
+  const schema = getBlueprintSchemaOrDefault(blueprintName || '');
+  const warnings: ValidationError[] = [];
+  if (!schema.keyField) return warnings;
+  
+  const firstSpellings = new Map<string, string>();
+  groupRowsByKey(rows, schema.keyField).forEach((rowIndexes, key) => {
+    const earlier = firstSpellings.get(keySpelling(key));
+    if (earlier === undefined) {
+      firstSpellings.set(keySpelling(key), key);
+      return;
+    }
+    warnings.push({
+      row: rowIndexes[0] + 2,
+      field: `${schema.keyField} (near duplicate)`,
+      kind: 'near-duplicate',
+      value: `"${key}" differs from "${earlier}" only by case or separators`,
+      validOptions: [earlier]
+    });
+  });
+  
+  return warnings;
+}
+
 /**
  * Validate data against field options
  * @param rows - Array of data rows to validate
  * @param fieldOptions - Object containing allowed values for each field
+ * @param blueprintName - Blueprint type of the rows (e.g. 'blueprint_tasks'); all schemas apply if omitted
  * @returns Array of validation errors
  */
-export function validateData(rows: any[], fieldOptions: Record<string, string[]>): ValidationError[] {
+export function validateData(
+  rows: any[],
+  fieldOptions: Record<string, string[]>,
+  blueprintName?: string
+): ValidationError[] {
   const errors: ValidationError[] = [];
   
   // Validate simple fields (single values or arrays)
-  validateSimpleFields(rows, fieldOptions as any, errors);
+  validateSimpleFields(rows, fieldOptions as any, errors, blueprintName);
   
   // Validate specification fields (compound "part1:part2" format)
-  validateSpecificationFields(rows, fieldOptions as any, errors);
+  validateSpecificationFields(rows, fieldOptions as any, errors, blueprintName);
+  
+  // Validate enhancements are applied in the declared enhancement-order
+  validateEnhancementOrder(rows, fieldOptions as any, errors);
+  
+  // Validate per-responsibility attributes (duration, cost)
+  validateAttributeFields(rows, errors, blueprintName);
+  
+  // Validate that the columns of each service agree with each other
+  if (getSpecificationColumns(blueprintName).length > 0) {
+    validateServiceConsistency(rows, fieldOptions as any, errors);
+  }
+  
+  // Validate each natural key is defined once
+  errors.push(...validateDuplicateKeys(rows, blueprintName));
   
   return errors;
 }
 
+/**
+ * Validate the records of a blueprint the way a transform run does
+ * Blueprints learned without validation are only checked for duplicate keys
+ * @param rows - Records of the blueprint
+ * @param fieldOptions - Learned options (not modified)
+ * @param blueprintName - Blueprint type of the rows
+ * @param tasksData - Records of blueprint_tasks, for the checks that follow the task graph (task existence, service consistency)
+ * @returns Array of validation errors
+ */
+export function validateBlueprint(
+  rows: any[],
+  fieldOptions: Record<string, any>,
+  blueprintName: string,
+  tasksData: any[] = []
+): ValidationError[] {
+  if (!getBlueprintSchemaOrDefault(blueprintName).validate) {
+    return validateDuplicateKeys(rows, blueprintName);
+  }
+  return validateData(rows, tasksData.length > 0 ? { ...fieldOptions, _tasksData: tasksData } : fieldOptions, blueprintName);
+}
+
 /**
  * Report validation errors to console in a formatted way
  * @param file - Filename being validated
  * @param errors - Array of validation errors
- * @param sourceType - Type of source ('JSON' or 'XLSX')
+ * @param sourceType - Type of source ('JSON', 'XLSX' or 'CSV')
  */
-export function reportValidationErrors(file: string, errors: ValidationError[], sourceType: 'JSON' | 'XLSX' = 'XLSX'): void {
+export function reportValidationErrors(file: string, errors: ValidationError[], sourceType: 'JSON' | 'XLSX' | 'CSV' = 'XLSX'): void {
   console.log(`❌ ${file} - VALIDATION FAILED - Typos detected!`);
   console.log('');
   console.log('  ╔═══════════════════════════════════════════════════════════════════════╗');
@@ -440,18 +878,24 @@ export function reportValidationErrors(file: string, errors: ValidationError[],
   console.log('  ╚═══════════════════════════════════════════════════════════════════════╝');
   console.log('');
   
-  errors.forEach((error, idx) => {
-    console.log(`  Typo #${idx + 1}:`);
-    
-    // Format location based on source type
+  // Format location based on source type
+  const locate = (row: number) => {
     if (sourceType === 'JSON') {
-      console.log(`  ├─ Location: Record ${error.row - 1} (JSON array index ${error.row - 2})`);
-    } else {
-      console.log(`  ├─ Location: Row ${error.row} (Excel row ${error.row})`);
+      return `Record ${row - 1} (JSON array index ${row - 2})`;
+    } else if (sourceType === 'CSV') {
+      return `Line ${row}`;
     }
-    
+    return `Row ${row} (Excel row ${row})`;
+  };
+  
+  errors.forEach((error, idx) => {
+    console.log(`  Typo #${idx + 1}:`);
+    console.log(`  ├─ Location: ${locate(error.row)}`);
     console.log(`  ├─ Field: "${error.field}"`);
     console.log(`  ├─ Invalid value: "${error.value}"`);
+    if (error.otherRows && error.otherRows.length > 0) {
+      console.log(`  ├─ Also defined at: ${error.otherRows.map(locate).join(', ')}`);
+    }
     console.log(`  ├─ Valid options (${error.validOptions.length}):`);
     
     // Show valid options, grouped if many
@@ -551,31 +995,32 @@ export function buildTaskProductEnhancements(taskProductsData: any[]): Record<st
 }
 
 /**
- * Update available_options.json with relationship mappings
+ * Update the options store with relationship mappings (no-op when learning is off)
+ * In merge mode the mappings are added to the stored ones instead of replacing them
  */
 export function updateAvailableOptionsRelationships(
   taskResponsibilities: Record<string, string[]>,
   taskProductProducers: Record<string, string[]>,
-  taskProductEnhancements: Record<string, string[]>
+  taskProductEnhancements: Record<string, string[]>,
+  store: OptionsStore = DEFAULT_OPTIONS_STORE
 ): void {
-  const availableOptionsPath = path.join(__dirname, '../available_options.json');
-  let currentOptions: Record<string, any> = {};
-  
-  if (fs.existsSync(availableOptionsPath)) {
-    try {
-      const content = fs.readFileSync(availableOptionsPath, 'utf-8');
-      currentOptions = JSON.parse(content);
-    } catch (error) {
-      currentOptions = {};
-    }
-  }
+  if (store.learn === 'off') return;
+  const currentOptions = readOptionsFile(store);
+  const merge = store.learn === 'merge';
   
   // Add the relationship mappings
-  currentOptions['task_responsibilities'] = taskResponsibilities;
-  currentOptions['taskProduct_producers'] = taskProductProducers;
-  currentOptions['taskProduct_enhancements'] = taskProductEnhancements;
+  currentOptions['task_responsibilities'] = merge
+    ? mergeMappings(currentOptions['task_responsibilities'], taskResponsibilities)
+    : taskResponsibilities;
+  currentOptions['taskProduct_producers'] = merge
+    ? mergeMappings(currentOptions['taskProduct_producers'], taskProductProducers)
+    : taskProductProducers;
+  // enhancement-order is an ordered list, so a newly learned order replaces the stored one
+  currentOptions['taskProduct_enhancements'] = merge
+    ? { ...(currentOptions['taskProduct_enhancements'] || {}), ...taskProductEnhancements }
+    : taskProductEnhancements;
   
-  fs.writeFileSync(availableOptionsPath, JSON.stringify(currentOptions, null, 2), 'utf-8');
+  writeOptionsFile(store, currentOptions);
 }
 
 /**
@@ -585,17 +1030,16 @@ export function updateAvailableOptionsRelationships(
  */
 export function buildServiceSpecifications(servicesData: any[]): Record<string, any> {
   const serviceSpecs: Record<string, any> = {};
+  const schema = getBlueprintSchemaOrDefault('blueprint_services');
+  const specFields = schema.fields.filter(field => field !== schema.keyField);
   
   servicesData.forEach((service: any) => {
-    const serviceName = service.Service;
+    const serviceName = service[schema.keyField];
     if (serviceName) {
-      serviceSpecs[serviceName] = {
-        taskProduct: service.taskProduct || null,
-        enhancement: service.enhancement || null,
-        'responsibility specification (Task:Responsibility)': service['responsibility specification (Task:Responsibility)'] || null,
-        'transformation specification (taskProduct:task)': service['transformation specification (taskProduct:task)'] || null,
-        'enhancement medium specification (enhancement:taskProduct)': service['enhancement medium specification (enhancement:taskProduct)'] || null
-      };
+      serviceSpecs[serviceName] = {};
+      specFields.forEach(field => {
+        serviceSpecs[serviceName][field] = service[field] || null;
+      });
     }
   });
   
@@ -603,25 +1047,22 @@ export function buildServiceSpecifications(servicesData: any[]): Record<string,
 }
 
 /**
- * Update available_options.json with service specifications
+ * Update the options store with service specifications (no-op when learning is off)
+ * In merge mode services that are not part of the run are kept
  * @param serviceSpecifications - Service specifications mapping
+ * @param store - Options store to update
  */
-export function updateAvailableOptionsServiceSpecs(serviceSpecifications: Record<string, any>): void {
-  const availableOptionsPath = path.join(__dirname, '../available_options.json');
-  let currentOptions: Record<string, any> = {};
-  
-  if (fs.existsSync(availableOptionsPath)) {
-    try {
-      const content = fs.readFileSync(availableOptionsPath, 'utf-8');
-      currentOptions = JSON.parse(content);
-    } catch (error) {
-      currentOptions = {};
-    }
-  }
+export function updateAvailableOptionsServiceSpecs(
+  serviceSpecifications: Record<string, any>,
+  store: OptionsStore = DEFAULT_OPTIONS_STORE
+): void {
+  if (store.learn === 'off') return;
+  const currentOptions = readOptionsFile(store);
   
   // Add the service specifications
-  currentOptions['service_specifications'] = serviceSpecifications;
+  currentOptions['service_specifications'] = store.learn === 'merge'
+    ? { ...(currentOptions['service_specifications'] || {}), ...serviceSpecifications }
+    : serviceSpecifications;
   
-  fs.writeFileSync(availableOptionsPath, JSON.stringify(currentOptions, null, 2), 'utf-8');
+  writeOptionsFile(store, currentOptions);
 }
-
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { watchFiles } from './watch';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Watch mode', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transform-watch-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('runs once per burst of saves, with the changed files only', async () => {
+    const files = ['blueprint_tasks.json', 'blueprint_services.json'].map(name => path.join(tempDir, name));
+    files.forEach(file => fs.writeFileSync(file, '[]'));
+    const runs: string[][] = [];
+
+    const stop = watchFiles(files, async changed => { runs.push(changed); }, { interval: 20, debounce: 100 });
+    try {
+      await wait(100);
+      fs.writeFileSync(files[0], '[{}]');
+      await wait(40);
+      fs.writeFileSync(files[0], '[{}, {}]');
+      await wait(400);
+    } finally {
+      stop();
+    }
+
+    expect(runs).toEqual([[files[0]]]);
+  });
+
+  test('keeps watching after a failed run, including files replaced on save', async () => {
+    const file = path.join(tempDir, 'blueprint_tasks.xlsx');
+    fs.writeFileSync(file, 'v1');
+    let runs = 0;
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const stop = watchFiles([file], async () => {
+      runs++;
+      if (runs === 1) throw new Error('Invalid workbook');
+    }, { interval: 20, debounce: 50 });
+    try {
+      await wait(100);
+      fs.writeFileSync(file, 'v2');
+      await wait(300);
+      // Save the way LibreOffice does: write a temporary file and rename it over the original
+      fs.writeFileSync(`${file}.tmp`, 'v3, saved');
+      fs.renameSync(`${file}.tmp`, file);
+      await wait(300);
+    } finally {
+      stop();
+    }
+
+    expect(runs).toBe(2);
+    expect(errorSpy).toHaveBeenCalledWith('❌ Error: Invalid workbook');
+    errorSpy.mockRestore();
+  });
+});
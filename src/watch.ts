@@ -0,0 +1,114 @@
+/**
+ * Watch mode: re-runs the pipeline whenever one of the input files is saved
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How often watched files are checked for changes (ms)
+ * Polling follows files that editors such as LibreOffice replace on save instead of rewriting
+ */
+export const WATCH_INTERVAL_MS = 500;
+
+/**
+ * How long to wait after a change before re-running (ms), so a burst of saves runs once
+ */
+export const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Timing of a file watch
+ */
+export interface WatchTiming {
+  interval?: number;
+  debounce?: number;
+}
+
+/**
+ * Watch files and call a handler with the files that changed
+ * Runs never overlap: changes made during a run are handled once it finishes.
+ * Errors thrown by the handler are printed and watching continues.
+ * @param filePaths - Files to watch
+ * @param onChange - Handler receiving the changed files (in the order of filePaths)
+ * @param timing - Polling interval and debounce delay
+ * @returns Function that stops watching
+ */
+export function watchFiles(
+  filePaths: string[],
+  onChange: (changed: string[]) => Promise<void>,
+  timing: WatchTiming = {}
+): () => void {
+  const interval = timing.interval ?? WATCH_INTERVAL_MS;
+  const debounce = timing.debounce ?? WATCH_DEBOUNCE_MS;
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const flush = async () => {
+    timer = null;
+    if (running) return;
+    running = true;
+    const changed = filePaths.filter(filePath => pending.has(filePath));
+    pending.clear();
+    try {
+      await onChange(changed);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    }
+    running = false;
+    if (pending.size > 0) {
+      schedule();
+    }
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounce);
+  };
+
+  const listeners = filePaths.map(filePath => {
+    const listener = (current: fs.Stats, previous: fs.Stats) => {
+      // A missing file (mtime 0) is mid-save or deleted; wait for it to come back
+      if (current.mtimeMs === 0 || (current.mtimeMs === previous.mtimeMs && current.size === previous.size)) return;
+      pending.add(filePath);
+      if (!running) schedule();
+    };
+    fs.watchFile(filePath, { interval, persistent: true }, listener);
+    return { filePath, listener };
+  });
+
+  return () => {
+    listeners.forEach(({ filePath, listener }) => fs.unwatchFile(filePath, listener));
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Watch input files and re-run the pipeline on the files a change affects
+ * @param filePaths - Input files of the run
+ * @param select - Files to re-run for a set of changed files
+ * @param run - Runs the pipeline on a set of files
+ * @returns Function that stops watching
+ */
+export function watchPipeline(
+  filePaths: string[],
+  select: (changed: string[]) => string[],
+  run: (filePaths: string[]) => Promise<void>
+): () => void {
+  const names = (files: string[]) => files.map(file => path.basename(file)).join(', ');
+  const announce = () => console.log(`👀 Watching ${filePaths.length} file(s) for changes (Ctrl+C to stop)\n`);
+
+  announce();
+  return watchFiles(filePaths, async changed => {
+    const selected = select(changed);
+    console.log(`\n🔁 Changed: ${names(changed)}`);
+    if (selected.length > changed.length) {
+      console.log(`   Re-running with: ${names(selected.filter(file => !changed.includes(file)))}`);
+    }
+    try {
+      await run(selected);
+    } finally {
+      announce();
+    }
+  });
+}